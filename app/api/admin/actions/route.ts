@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { notifyModeration } from '@/lib/notifications';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { revokeUserSessions } from '@/lib/session';
+import { announceEscalation, issueWarning, warningExpiresAt } from '@/lib/escalation';
 import { canBanUser, canWarnUser, canPromoteDemote, isSuperAdmin } from '@/lib/permissions';
 import { CreateBanRequest, CreateWarningRequest, AdminActionRequest, ApiResponse } from '@/lib/types';
 
@@ -17,23 +23,23 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const { anilistUser, user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
     
     // Check rate limit
-    await checkRateLimit(anilistUser.id, 'ban', db);
+    const rateLimit = await checkRateLimit(user, 'ban');
 
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
 
     if (action === 'ban') {
-      return handleBan(request, user, anilistUser);
+      return withRateLimitHeaders(await handleBan(request, user, anilistUser), rateLimit);
     } else if (action === 'warn') {
-      return handleWarn(request, user, anilistUser);
+      return withRateLimitHeaders(await handleWarn(request, user, anilistUser), rateLimit);
     } else if (action === 'promote' || action === 'demote') {
-      return handleRoleChange(request, user, anilistUser, action);
+      return withRateLimitHeaders(await handleRoleChange(request, user, anilistUser, action), rateLimit);
     } else {
       return NextResponse.json<ApiResponse>({
         success: false,
@@ -43,15 +49,12 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('POST admin action error:', error);
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
     
     if (error instanceof Error) {
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: error.message
-        }, { status: 429 });
-      }
-      
       if (error.message.includes('Invalid') || error.message.includes('required')) {
         return NextResponse.json<ApiResponse>({
           success: false,
@@ -153,6 +156,31 @@ async function handleBan(request: NextRequest, user: any, anilistUser: any) {
     }
   });
 
+  await notifyModeration(user_id, anilistUser.id,
+    expires_at ? `You are banned until ${expires_at.toISOString()}` : 'You are permanently banned',
+    reason.trim(), {
+      ban_id: newBan.id,
+      expires_at,
+      action: 'ban'
+    });
+
+  await publishEvent('user_ban', null, {
+    user_id,
+    is_permanent: newBan.is_permanent,
+    expires_at: newBan.expires_at
+  });
+
+  await revokeUserSessions(user_id);
+
+  await enqueueWebhookEvent('user.banned', {
+    ban_id: newBan.id,
+    user_id,
+    banned_by: anilistUser.id,
+    reason: newBan.reason,
+    is_permanent: newBan.is_permanent,
+    expires_at: newBan.expires_at
+  });
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -177,7 +205,7 @@ async function handleWarn(request: NextRequest, user: any, anilistUser: any) {
   }
 
   const body: CreateWarningRequest = await request.json();
-  const { user_id, reason, description } = body;
+  const { user_id, reason, description, expires_in_days } = body;
 
   // Validate input
   if (!user_id || !reason || reason.trim().length === 0) {
@@ -201,6 +229,14 @@ async function handleWarn(request: NextRequest, user: any, anilistUser: any) {
     }, { status: 400 });
   }
 
+  if (expires_in_days !== undefined && expires_in_days !== null &&
+      (!Number.isInteger(expires_in_days) || expires_in_days < 1)) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Invalid expires_in_days. Must be a positive integer or null'
+    }, { status: 400 });
+  }
+
   // Cannot warn yourself
   if (user_id === anilistUser.id) {
     return NextResponse.json<ApiResponse>({
@@ -231,26 +267,26 @@ async function handleWarn(request: NextRequest, user: any, anilistUser: any) {
     }
   }
 
-  // Create warning
-  const newWarning = await db.warning.create({
-    data: {
-      user_id: user_id,
-      warned_by: anilistUser.id,
-      reason: reason.trim(),
-      description: description?.trim() || null
-    }
+  // Create the warning; bans the user automatically when it crosses a step of the escalation ladder
+  const { warning: newWarning, escalation } = await issueWarning({
+    user_id: user_id,
+    warned_by: anilistUser.id,
+    reason: reason.trim(),
+    description: description?.trim() || null,
+    expires_at: warningExpiresAt(expires_in_days)
   });
 
-  // Update user's warning count
-  await db.user.update({
-    where: { anilist_user_id: user_id },
-    data: {
-      warning_count: {
-        increment: 1
-      }
-    }
+  await notifyModeration(user_id, anilistUser.id, 'You received a warning', reason.trim(), {
+    warning_id: newWarning.id,
+    description: newWarning.description,
+    expires_at: newWarning.expires_at,
+    action: 'warn'
   });
 
+  if (escalation) {
+    await announceEscalation(request, newWarning, escalation);
+  }
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -258,9 +294,16 @@ async function handleWarn(request: NextRequest, user: any, anilistUser: any) {
       user_id: user_id,
       warned_by: anilistUser.id,
       reason: newWarning.reason,
-      description: newWarning.description
+      description: newWarning.description,
+      expires_at: newWarning.expires_at,
+      escalation: escalation ? {
+        policy: escalation.step,
+        ban_id: escalation.ban.id,
+        is_permanent: escalation.ban.is_permanent,
+        expires_at: escalation.ban.expires_at
+      } : null
     },
-    message: 'User warned successfully'
+    message: escalation ? 'User warned and automatically banned' : 'User warned successfully'
   });
 }
 
@@ -362,6 +405,21 @@ async function handleRoleChange(request: NextRequest, user: any, anilistUser: an
     data: updateData
   });
 
+  await publishEvent('role_change', null, {
+    user_id,
+    old_role: targetUser.role,
+    new_role: updatedUser.role
+  });
+
+  await revokeUserSessions(user_id);
+
+  await enqueueWebhookEvent('user.role_changed', {
+    user_id,
+    changed_by: anilistUser.id,
+    old_role: targetUser.role,
+    new_role: updatedUser.role
+  });
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -0,0 +1,282 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canDecideAppeals, isSuperAdmin } from '@/lib/permissions';
+import { claimAppeal, decideAppeal } from '@/lib/appeals';
+import { QueueClaimError, isClaimLive, queueClaimResponse } from '@/lib/moderation-queue';
+import { notifyModeration } from '@/lib/notifications';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+const APPEAL_ACTION_MESSAGES: Record<string, string> = {
+  claim: 'Appeal claimed',
+  release: 'Appeal released',
+  accept: 'Appeal accepted',
+  reject: 'Appeal rejected'
+};
+const APPEAL_ACTIONS = Object.keys(APPEAL_ACTION_MESSAGES);
+
+// GET /api/admin/appeals/[id] - An appeal with the user's ban, warning and appeal history
+// (admins and above)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canDecideAppeals(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const appeal = await db.appeal.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            anilist_user_id: true,
+            username: true,
+            profile_picture_url: true,
+            is_banned: true,
+            ban_reason: true,
+            ban_expires: true,
+            warning_count: true,
+            created_at: true
+          }
+        },
+        ban: true,
+        warning: true
+      }
+    });
+
+    if (!appeal) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Appeal not found'
+      }, { status: 404 });
+    }
+
+    const [bans, warnings, otherAppeals] = await Promise.all([
+      db.ban.findMany({
+        where: { user_id: appeal.user_id },
+        orderBy: { created_at: 'desc' },
+        take: 20
+      }),
+      db.warning.findMany({
+        where: { user_id: appeal.user_id },
+        orderBy: { created_at: 'desc' },
+        take: 20
+      }),
+      db.appeal.findMany({
+        where: { user_id: appeal.user_id, id: { not: appeal.id } },
+        orderBy: { created_at: 'desc' },
+        take: 20
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        ...appeal,
+        type: appeal.ban_id ? 'ban' : 'warning',
+        claim_active: isClaimLive(appeal),
+        history: {
+          bans,
+          warnings,
+          appeals: otherAppeals
+        }
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET appeal error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/appeals/[id] - Work an appeal:
+//   { action: 'claim' | 'release' }
+//   { action: 'accept', note? }    lift the ban or warning
+//   { action: 'reject', note? }    keep it in place
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canDecideAppeals(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { action } = body;
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim().slice(0, 1000) : null;
+
+    if (!APPEAL_ACTIONS.includes(action)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `action must be one of: ${APPEAL_ACTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const appeal = await db.appeal.findUnique({
+      where: { id },
+      include: { ban: true, warning: true }
+    });
+
+    if (!appeal) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Appeal not found'
+      }, { status: 404 });
+    }
+
+    if (appeal.status !== 'PENDING') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Appeal is already ${appeal.status.toLowerCase()}`
+      }, { status: 409 });
+    }
+
+    // A second pair of eyes: admins do not review appeals against their own decisions
+    const issuedBy = appeal.ban?.banned_by ?? appeal.warning?.warned_by;
+    if (issuedBy === user.anilist_user_id && !isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'You cannot review an appeal against your own ban or warning'
+      }, { status: 403 });
+    }
+
+    const heldByOther = isClaimLive(appeal) && appeal.assigned_to !== user.anilist_user_id;
+    if (heldByOther && !isSuperAdmin(user)) {
+      throw new QueueClaimError(appeal.assigned_to!, appeal.claimed_at!, 'This appeal is claimed by another admin');
+    }
+
+    let data: any;
+    let auditAction: string;
+    const auditDetails: Record<string, any> = {
+      appellant_id: appeal.user_id,
+      ban_id: appeal.ban_id,
+      warning_id: appeal.warning_id
+    };
+
+    if (action === 'claim') {
+      data = await claimAppeal(id, user.anilist_user_id);
+      auditAction = 'CLAIM_APPEAL';
+
+    } else if (action === 'release') {
+      data = await db.appeal.update({
+        where: { id },
+        data: { assigned_to: null, claimed_at: null }
+      });
+      auditAction = 'RELEASE_APPEAL';
+      auditDetails.previous_assignee = appeal.assigned_to;
+
+    } else {
+      const decision = action === 'accept' ? 'ACCEPTED' : 'REJECTED';
+      data = await decideAppeal(id, user.anilist_user_id, decision, note);
+
+      if (!data) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Appeal was decided by someone else'
+        }, { status: 409 });
+      }
+
+      const subject = appeal.ban ? 'ban' : 'warning';
+      await notifyModeration(
+        appeal.user_id,
+        user.anilist_user_id,
+        decision === 'ACCEPTED'
+          ? `Your ${subject} appeal was accepted`
+          : `Your ${subject} appeal was rejected`,
+        note || (decision === 'ACCEPTED'
+          ? `The ${subject} has been lifted.`
+          : `The ${subject} remains in place.`),
+        {
+          appeal_id: appeal.id,
+          ban_id: appeal.ban_id,
+          warning_id: appeal.warning_id,
+          action: decision === 'ACCEPTED' ? 'appeal_accepted' : 'appeal_rejected'
+        }
+      );
+
+      auditAction = decision === 'ACCEPTED' ? 'ACCEPT_APPEAL' : 'REJECT_APPEAL';
+      auditDetails.note = note;
+    }
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: auditAction,
+        target_type: 'appeal',
+        target_id: id,
+        details: auditDetails,
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data,
+      message: APPEAL_ACTION_MESSAGES[action]
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    if (error instanceof QueueClaimError) {
+      return queueClaimResponse(error);
+    }
+
+    console.error('PATCH appeal error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { canDecideAppeals } from '@/lib/permissions';
+import { CLAIM_TTL_MINUTES, isClaimLive } from '@/lib/moderation-queue';
+import { APPEAL_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/appeals - Ban and warning appeals, oldest first (admins and above).
+// ?status=PENDING (default) | ACCEPTED | REJECTED | ALL, ?type=ban | warning, ?assigned=me | unassigned
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canDecideAppeals(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'PENDING';
+    const type = searchParams.get('type');
+    const assigned = searchParams.get('assigned');
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50), 1);
+    const cursor = searchParams.get('cursor');
+
+    if (!['PENDING', 'ACCEPTED', 'REJECTED', 'ALL'].includes(status)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid status. Must be PENDING, ACCEPTED, REJECTED or ALL'
+      }, { status: 400 });
+    }
+
+    if (type && type !== 'ban' && type !== 'warning') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid type. Must be ban or warning'
+      }, { status: 400 });
+    }
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'appeals', APPEAL_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const whereClause: any = {};
+    if (status !== 'ALL') whereClause.status = status;
+    if (type === 'ban') whereClause.ban_id = { not: null };
+    if (type === 'warning') whereClause.warning_id = { not: null };
+    if (assigned === 'me') {
+      whereClause.assigned_to = user.anilist_user_id;
+    } else if (assigned === 'unassigned') {
+      // Lapsed claims are back in the pool
+      whereClause.OR = [
+        { assigned_to: null },
+        { claimed_at: { lt: new Date(Date.now() - CLAIM_TTL_MINUTES * 60 * 1000) } }
+      ];
+    }
+
+    const [rows, total] = await Promise.all([
+      db.appeal.findMany({
+        where: applyCursor(whereClause, APPEAL_SORT, cursorValues),
+        orderBy: buildOrderBy(APPEAL_SORT),
+        include: {
+          user: {
+            select: {
+              anilist_user_id: true,
+              username: true,
+              profile_picture_url: true,
+              is_banned: true,
+              ban_expires: true,
+              warning_count: true
+            }
+          },
+          ban: true,
+          warning: true
+        },
+        take: limit + 1
+      }),
+      db.appeal.count({ where: whereClause })
+    ]);
+
+    const { items, hasMore, nextCursor } = toCursorPage(rows, limit, 'appeals', APPEAL_SORT);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        appeals: items.map(appeal => ({
+          ...appeal,
+          type: appeal.ban_id ? 'ban' : 'warning',
+          claim_active: isClaimLive(appeal)
+        })),
+        pagination: {
+          limit,
+          total,
+          hasMore,
+          next_cursor: nextCursor
+        }
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET appeals error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
 import { canViewAuditLogs, getUserRole, Role } from '@/lib/permissions';
+import { AUDIT_LOG_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
 import { ApiResponse } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
@@ -15,8 +16,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     // Check permissions
     if (!canViewAuditLogs(user)) {
@@ -34,7 +34,17 @@ export async function GET(request: NextRequest) {
     const targetType = searchParams.get('target_type');
     const targetId = searchParams.get('target_id');
 
-    const offset = (page - 1) * limit;
+    const cursor = searchParams.get('cursor');
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'audit_logs', AUDIT_LOG_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const offset = cursorValues ? 0 : (page - 1) * limit;
 
     // Build where clause
     const whereClause: any = {};
@@ -44,8 +54,8 @@ export async function GET(request: NextRequest) {
     if (targetId) whereClause.target_id = targetId;
 
     // Get audit logs
-    const auditLogs = await db.auditLog.findMany({
-      where: whereClause,
+    const rows = await db.auditLog.findMany({
+      where: applyCursor(whereClause, AUDIT_LOG_SORT, cursorValues),
       include: {
         user: {
           select: {
@@ -54,11 +64,13 @@ export async function GET(request: NextRequest) {
           }
         }
       },
-      orderBy: { created_at: 'desc' },
+      orderBy: buildOrderBy(AUDIT_LOG_SORT),
       skip: offset,
-      take: limit
+      take: limit + 1
     });
 
+    const { items: auditLogs, hasMore, nextCursor } = toCursorPage(rows, limit, 'audit_logs', AUDIT_LOG_SORT);
+
     // Get total count
     const total = await db.auditLog.count({
       where: whereClause
@@ -72,7 +84,8 @@ export async function GET(request: NextRequest) {
           page,
           limit,
           total,
-          hasMore: offset + auditLogs.length < total
+          hasMore,
+          next_cursor: nextCursor
         }
       }
     });
@@ -97,8 +110,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     // Only Super Admin can delete audit logs
     if (getUserRole(user) !== Role.SUPER_ADMIN) {
@@ -0,0 +1,296 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canReviewHeldComments, isShadowBanned } from '@/lib/permissions';
+import { formatComment } from '@/lib/comment-tree';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { notifyMentionedUsers } from '@/lib/mentions';
+import { notifyReply } from '@/lib/notifications';
+import { COMMENT_SORTS, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+const HELD_SORT = COMMENT_SORTS.oldest;
+
+// GET /api/admin/automod/held - Comments held (or with ?status=HIDDEN, shadow-hidden) by
+// automoderation, oldest first (moderators and above)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canReviewHeldComments(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'HELD';
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100), 1);
+    const cursor = searchParams.get('cursor');
+
+    if (status !== 'HELD' && status !== 'HIDDEN') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid status. Must be HELD or HIDDEN'
+      }, { status: 400 });
+    }
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'held_comments', HELD_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const whereClause = { moderation_status: status as 'HELD' | 'HIDDEN', is_deleted: false };
+
+    const [rows, total] = await Promise.all([
+      db.comment.findMany({
+        where: applyCursor(whereClause, HELD_SORT, cursorValues),
+        include: {
+          user: {
+            select: {
+              id: true,
+              anilist_user_id: true,
+              username: true,
+              profile_picture_url: true,
+              is_mod: true,
+              is_admin: true,
+              role: true,
+              shadow_banned: true,
+              shadow_ban_expires: true
+            }
+          },
+          tags: true
+        },
+        orderBy: buildOrderBy(HELD_SORT),
+        take: limit + 1
+      }),
+      db.comment.count({ where: whereClause })
+    ]);
+
+    const { items, hasMore, nextCursor } = toCursorPage(rows, limit, 'held_comments', HELD_SORT);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        comments: items.map(comment => formatComment(comment, [], true)),
+        pagination: {
+          limit,
+          total,
+          hasMore,
+          next_cursor: nextCursor
+        }
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET held comments error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/automod/held - Review a held or hidden comment.
+// { comment_id, decision: 'approve' } publishes it; 'remove' deletes it.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canReviewHeldComments(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { comment_id, decision, reason } = body;
+
+    if (!comment_id || (decision !== 'approve' && decision !== 'remove')) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: "comment_id and decision ('approve' or 'remove') are required"
+      }, { status: 400 });
+    }
+
+    const comment = await db.comment.findUnique({
+      where: { id: comment_id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            anilist_user_id: true,
+            username: true,
+            profile_picture_url: true,
+            is_mod: true,
+            is_admin: true,
+            role: true,
+            shadow_banned: true,
+            shadow_ban_expires: true
+          }
+        },
+        tags: true
+      }
+    });
+
+    if (!comment || comment.is_deleted || comment.moderation_status === 'VISIBLE') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'No held or hidden comment with this id'
+      }, { status: 404 });
+    }
+
+    const updated = await db.comment.update({
+      where: { id: comment.id },
+      data: decision === 'approve'
+        ? { moderation_status: 'VISIBLE' }
+        : {
+            is_deleted: true,
+            deleted_by: user.anilist_user_id,
+            delete_reason: typeof reason === 'string' && reason.trim() ? reason.trim() : 'Removed after automoderation review'
+          },
+      include: {
+        user: {
+          select: {
+            id: true,
+            anilist_user_id: true,
+            username: true,
+            profile_picture_url: true,
+            is_mod: true,
+            is_admin: true,
+            role: true,
+            shadow_banned: true,
+            shadow_ban_expires: true
+          }
+        },
+        tags: true
+      }
+    });
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: decision === 'approve' ? 'APPROVE_HELD_COMMENT' : 'REMOVE_HELD_COMMENT',
+        target_type: 'comment',
+        target_id: String(comment.id),
+        details: {
+          previous_status: comment.moderation_status,
+          author_id: comment.anilist_user_id,
+          reason: reason || null
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    // An approved comment is announced as if it had just been posted
+    if (decision === 'approve' && !isShadowBanned(updated.user)) {
+      const formatted = formatComment(updated);
+      await publishEvent('new_comment', { media_id: updated.media_id, media_type: updated.media_type }, formatted);
+      await enqueueWebhookEvent('comment.created', { comment: formatted });
+      await notifyApprovedComment(updated);
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: formatComment(updated, [], true),
+      message: decision === 'approve' ? 'Comment approved' : 'Comment removed'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST held comment review error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Sends the mention and reply notifications that were held back while the comment was not
+// public. A comment hidden by an edit may have notified some of them when it was first
+// posted, so recipients already notified about this comment are skipped.
+async function notifyApprovedComment(comment: {
+  id: number;
+  media_id: number;
+  media_type: string;
+  content: string;
+  anilist_user_id: number;
+  parent_comment_id: number | null;
+  user: { username: string };
+}) {
+  const [mentions, parent] = await Promise.all([
+    db.commentMention.findMany({
+      where: { comment_id: comment.id },
+      select: { mentioned_user_id: true }
+    }),
+    comment.parent_comment_id
+      ? db.comment.findUnique({
+          where: { id: comment.parent_comment_id },
+          select: { id: true, anilist_user_id: true }
+        })
+      : null
+  ]);
+
+  const recipients = mentions.map(mention => mention.mentioned_user_id);
+  if (parent) recipients.push(parent.anilist_user_id);
+  if (recipients.length === 0) return;
+
+  const notified = await db.notification.findMany({
+    where: {
+      user_id: { in: recipients },
+      type: { in: ['mention', 'reply'] },
+      data: { path: ['comment_id'], equals: comment.id }
+    },
+    select: { user_id: true, type: true }
+  });
+  const wasNotified = (userId: number, type: string) =>
+    notified.some(notification => notification.user_id === userId && notification.type === type);
+
+  await notifyMentionedUsers(
+    comment,
+    comment.user.username,
+    mentions.map(mention => mention.mentioned_user_id).filter(id => !wasNotified(id, 'mention'))
+  );
+
+  if (parent && !wasNotified(parent.anilist_user_id, 'reply')) {
+    await notifyReply(parent, comment, comment.user.username);
+  }
+}
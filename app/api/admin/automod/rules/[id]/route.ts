@@ -0,0 +1,268 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canManageAutomod } from '@/lib/permissions';
+import { clearAutomodRuleCache, parseRuleInput, ruleSnapshot } from '@/lib/automod';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/automod/rules/[id] - A rule with its version history (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canManageAutomod(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const rule = await db.automodRule.findUnique({
+      where: { id },
+      include: {
+        versions: { orderBy: { version: 'desc' } }
+      }
+    });
+
+    if (!rule) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Automod rule not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET automod rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/automod/rules/[id] - Update a rule; every change creates a new version
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canManageAutomod(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseRuleInput(body, true);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'No changes provided'
+      }, { status: 400 });
+    }
+
+    const existing = await db.automodRule.findUnique({ where: { id } });
+    if (!existing || existing.deleted_at) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Automod rule not found'
+      }, { status: 404 });
+    }
+
+    const rule = await db.$transaction(async (tx) => {
+      const updated = await tx.automodRule.update({
+        where: { id },
+        data: {
+          ...parsed.data,
+          version: { increment: 1 },
+          updated_by: user.anilist_user_id
+        }
+      });
+
+      await tx.automodRuleVersion.create({
+        data: {
+          rule_id: id,
+          version: updated.version,
+          snapshot: ruleSnapshot(updated),
+          changed_by: user.anilist_user_id
+        }
+      });
+
+      return updated;
+    });
+    clearAutomodRuleCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'UPDATE_AUTOMOD_RULE',
+        target_type: 'automod_rule',
+        target_id: id,
+        details: {
+          version: rule.version,
+          changes: Object.keys(parsed.data)
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: rule,
+      message: 'Automod rule updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PATCH automod rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/automod/rules/[id] - Retire a rule; it stops applying but keeps its history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canManageAutomod(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const existing = await db.automodRule.findUnique({ where: { id } });
+    if (!existing || existing.deleted_at) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Automod rule not found'
+      }, { status: 404 });
+    }
+
+    const rule = await db.$transaction(async (tx) => {
+      const deleted = await tx.automodRule.update({
+        where: { id },
+        data: {
+          is_active: false,
+          deleted_at: new Date(),
+          version: { increment: 1 },
+          updated_by: user.anilist_user_id
+        }
+      });
+
+      await tx.automodRuleVersion.create({
+        data: {
+          rule_id: id,
+          version: deleted.version,
+          snapshot: ruleSnapshot(deleted),
+          changed_by: user.anilist_user_id
+        }
+      });
+
+      return deleted;
+    });
+    clearAutomodRuleCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'DELETE_AUTOMOD_RULE',
+        target_type: 'automod_rule',
+        target_id: id,
+        details: { version: rule.version, name: rule.name },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Automod rule deleted successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('DELETE automod rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canManageAutomod } from '@/lib/permissions';
+import { clearAutomodRuleCache, parseRuleInput, ruleSnapshot } from '@/lib/automod';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/automod/rules - List automoderation rules (admin only).
+// Deleted rules are only included with ?include_deleted=true.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canManageAutomod(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeDeleted = searchParams.get('include_deleted') === 'true';
+
+    const rules = await db.automodRule.findMany({
+      where: includeDeleted ? {} : { deleted_at: null },
+      orderBy: [{ priority: 'desc' }, { created_at: 'asc' }]
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { rules }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET automod rules error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/automod/rules - Create a rule; it takes effect within the rule cache TTL
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canManageAutomod(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseRuleInput(body, false);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const rule = await db.$transaction(async (tx) => {
+      const created = await tx.automodRule.create({
+        data: {
+          ...parsed.data,
+          created_by: user.anilist_user_id
+        }
+      });
+
+      await tx.automodRuleVersion.create({
+        data: {
+          rule_id: created.id,
+          version: created.version,
+          snapshot: ruleSnapshot(created),
+          changed_by: user.anilist_user_id
+        }
+      });
+
+      return created;
+    });
+    clearAutomodRuleCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'CREATE_AUTOMOD_RULE',
+        target_type: 'automod_rule',
+        target_id: rule.id,
+        details: { version: rule.version, ...ruleSnapshot(rule) },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: rule,
+      message: 'Automod rule created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST automod rule error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
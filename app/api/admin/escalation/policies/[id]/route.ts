@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canManageEscalationPolicies } from '@/lib/permissions';
+import { clearEscalationPolicyCache, parseEscalationPolicyInput } from '@/lib/escalation';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// PATCH /api/admin/escalation/policies/[id] - Update a step; is_active: false takes it off the ladder
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canManageEscalationPolicies(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseEscalationPolicyInput(body, true);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const existing = await db.escalationPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Escalation policy not found'
+      }, { status: 404 });
+    }
+
+    // A temporary step still needs a duration after the change
+    const merged = { ...existing, ...parsed.data };
+    if (!merged.is_permanent && !merged.ban_hours) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'ban_hours is required unless is_permanent is true'
+      }, { status: 400 });
+    }
+
+    const policy = await db.escalationPolicy.update({
+      where: { id },
+      data: {
+        ...parsed.data,
+        updated_by: user.anilist_user_id
+      }
+    });
+    clearEscalationPolicyCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'UPDATE_ESCALATION_POLICY',
+        target_type: 'escalation_policy',
+        target_id: id,
+        details: { changes: parsed.data },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: policy,
+      message: 'Escalation policy updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PATCH escalation policy error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/escalation/policies/[id] - Remove a step. Bans it issued stay in place and
+// keep their attribution in the audit log.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canManageEscalationPolicies(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const existing = await db.escalationPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Escalation policy not found'
+      }, { status: 404 });
+    }
+
+    await db.escalationPolicy.delete({ where: { id } });
+    clearEscalationPolicyCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'DELETE_ESCALATION_POLICY',
+        target_type: 'escalation_policy',
+        target_id: id,
+        details: {
+          name: existing.name,
+          warning_count: existing.warning_count,
+          window_days: existing.window_days,
+          ban_hours: existing.ban_hours,
+          is_permanent: existing.is_permanent
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Escalation policy deleted successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('DELETE escalation policy error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canManageEscalationPolicies } from '@/lib/permissions';
+import {
+  DEFAULT_ESCALATION_LADDER,
+  clearEscalationPolicyCache,
+  getWarningExpiryDays,
+  isEscalationEnabled,
+  parseEscalationPolicyInput
+} from '@/lib/escalation';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/escalation/policies - The escalation ladder: every policy and the built-in
+// steps that apply while none are active (admins and above)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canManageEscalationPolicies(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const policies = await db.escalationPolicy.findMany({
+      orderBy: [{ warning_count: 'asc' }, { created_at: 'asc' }]
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        enabled: isEscalationEnabled(),
+        warning_expiry_days: getWarningExpiryDays(),
+        using_defaults: !policies.some(policy => policy.is_active),
+        defaults: DEFAULT_ESCALATION_LADDER,
+        policies
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET escalation policies error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/escalation/policies - Add a step to the ladder:
+// { name, warning_count, window_days?, ban_hours | is_permanent: true }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canManageEscalationPolicies(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseEscalationPolicyInput(body, false);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const policy = await db.escalationPolicy.create({
+      data: {
+        ...parsed.data,
+        created_by: user.anilist_user_id
+      }
+    });
+    clearEscalationPolicyCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'CREATE_ESCALATION_POLICY',
+        target_type: 'escalation_policy',
+        target_id: policy.id,
+        details: parsed.data,
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: policy,
+      message: 'Escalation policy created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST escalation policy error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
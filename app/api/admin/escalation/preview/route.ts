@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { canWarnUser, isSuperAdmin } from '@/lib/permissions';
+import { previewNextWarning } from '@/lib/escalation';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/escalation/preview?user_id=123 - What sanction warning this user once more
+// would trigger, for whoever is about to warn them
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!isSuperAdmin(user) && !canWarnUser(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Insufficient permissions to warn users'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('user_id') || '');
+    if (!userId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'user_id is required'
+      }, { status: 400 });
+    }
+
+    const targetUser = await db.user.findUnique({
+      where: { anilist_user_id: userId },
+      select: { anilist_user_id: true, username: true, is_banned: true, ban_expires: true }
+    });
+
+    if (!targetUser) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Target user not found'
+      }, { status: 404 });
+    }
+
+    const preview = await previewNextWarning(userId);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        user: targetUser,
+        ...preview
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET escalation preview error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MediaType } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canLockDiscussions } from '@/lib/permissions';
+import {
+  MAX_SLOW_MODE_SECONDS,
+  getMediaSettings,
+  isRestrictionLive,
+  isSlowModeLive,
+  restrictionExpiresAt
+} from '@/lib/locks';
+import { publishEvent } from '@/lib/events';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+const MEDIA_ACTIONS: Record<string, string> = {
+  lock: 'LOCK_MEDIA',
+  unlock: 'UNLOCK_MEDIA',
+  slow_mode: 'ENABLE_SLOW_MODE',
+  disable_slow_mode: 'DISABLE_SLOW_MODE'
+};
+
+function isMediaType(value: unknown): value is MediaType {
+  return typeof value === 'string' && (Object.values(MediaType) as string[]).includes(value);
+}
+
+function formatSettings(mediaId: number, mediaType: MediaType, settings: Awaited<ReturnType<typeof getMediaSettings>>) {
+  return {
+    media_id: mediaId,
+    media_type: mediaType,
+    is_locked: !!settings && isRestrictionLive(settings.is_locked, settings.lock_expires),
+    lock_expires: settings?.lock_expires ?? null,
+    lock_reason: settings?.lock_reason ?? null,
+    locked_by: settings?.locked_by ?? null,
+    slow_mode_seconds: isSlowModeLive(settings) ? settings!.slow_mode_seconds : null,
+    slow_mode_expires: settings?.slow_mode_expires ?? null,
+    slow_mode_set_by: settings?.slow_mode_set_by ?? null
+  };
+}
+
+// GET /api/admin/media-settings?media_id=1&media_type=ANIME - Lock and slow mode state of a
+// media page (moderators and above)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canLockDiscussions(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const mediaId = parseInt(searchParams.get('media_id') || '');
+    const mediaType = searchParams.get('media_type') || 'ANIME';
+
+    if (!mediaId || !isMediaType(mediaType)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'media_id and a valid media_type (ANIME or MANGA) are required'
+      }, { status: 400 });
+    }
+
+    const settings = await getMediaSettings(mediaId, mediaType);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: formatSettings(mediaId, mediaType, settings)
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET media settings error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/media-settings - Restrict posting on a media page:
+//   { media_id, media_type, action: 'lock', reason?, duration_minutes? }
+//   { media_id, media_type, action: 'slow_mode', seconds, duration_minutes? }
+//   { media_id, media_type, action: 'unlock' | 'disable_slow_mode' }
+// Without duration_minutes a restriction lasts until lifted.
+export async function PATCH(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canLockDiscussions(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { media_id, action, seconds } = body;
+    const mediaType = body.media_type || 'ANIME';
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 200) : null;
+
+    if (!Number.isInteger(media_id) || media_id < 1 || !isMediaType(mediaType)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'media_id and a valid media_type (ANIME or MANGA) are required'
+      }, { status: 400 });
+    }
+
+    if (!MEDIA_ACTIONS[action]) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `action must be one of: ${Object.keys(MEDIA_ACTIONS).join(', ')}`
+      }, { status: 400 });
+    }
+
+    const expiresAt = action === 'lock' || action === 'slow_mode' ? restrictionExpiresAt(body.duration_minutes) : null;
+    if (expiresAt === undefined) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid duration_minutes. Must be a positive integer'
+      }, { status: 400 });
+    }
+
+    if (action === 'slow_mode' && (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_SLOW_MODE_SECONDS)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Invalid seconds. Must be an integer between 1 and ${MAX_SLOW_MODE_SECONDS}`
+      }, { status: 400 });
+    }
+
+    let changes: Record<string, any>;
+    if (action === 'lock') {
+      changes = { is_locked: true, lock_expires: expiresAt, lock_reason: reason, locked_by: user.anilist_user_id };
+    } else if (action === 'unlock') {
+      changes = { is_locked: false, lock_expires: null, lock_reason: null, locked_by: null };
+    } else if (action === 'slow_mode') {
+      changes = { slow_mode_seconds: seconds, slow_mode_expires: expiresAt, slow_mode_set_by: user.anilist_user_id };
+    } else {
+      changes = { slow_mode_seconds: null, slow_mode_expires: null, slow_mode_set_by: null };
+    }
+
+    const previous = await getMediaSettings(media_id, mediaType);
+    const settings = await db.mediaSettings.upsert({
+      where: { media_id_media_type: { media_id, media_type: mediaType } },
+      create: { media_id, media_type: mediaType, ...changes },
+      update: changes
+    });
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: MEDIA_ACTIONS[action],
+        target_type: 'media',
+        target_id: `${mediaType}:${media_id}`,
+        details: {
+          media_id,
+          media_type: mediaType,
+          reason,
+          seconds: action === 'slow_mode' ? seconds : undefined,
+          expires_at: expiresAt,
+          previous: previous ? formatSettings(media_id, mediaType, previous) : null
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    const formatted = formatSettings(media_id, mediaType, settings);
+
+    await publishEvent('discussion_lock', { media_id, media_type: mediaType }, {
+      scope: 'media',
+      is_locked: formatted.is_locked,
+      lock_expires: formatted.lock_expires,
+      slow_mode_seconds: formatted.slow_mode_seconds,
+      slow_mode_expires: formatted.slow_mode_expires
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: formatted,
+      message: {
+        lock: 'Media comments locked',
+        unlock: 'Media comments unlocked',
+        slow_mode: `Slow mode enabled: one comment every ${seconds} seconds`,
+        disable_slow_mode: 'Slow mode disabled'
+      }[action as string]
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PATCH media settings error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
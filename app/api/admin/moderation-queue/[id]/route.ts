@@ -0,0 +1,311 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { Role, canWorkModerationQueue, getUserRole } from '@/lib/permissions';
+import {
+  QueueClaimError,
+  claimQueueItem,
+  decideQueueItem,
+  getReporterAccuracy,
+  isClaimLive,
+  queueClaimResponse,
+  releaseQueueItem
+} from '@/lib/moderation-queue';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+const QUEUE_ACTION_MESSAGES: Record<string, string> = {
+  claim: 'Queue item claimed',
+  release: 'Queue item released',
+  assign: 'Queue item assigned',
+  resolve: 'Queue item resolved',
+  dismiss: 'Queue item dismissed'
+};
+const QUEUE_ACTIONS = Object.keys(QUEUE_ACTION_MESSAGES);
+
+// GET /api/admin/moderation-queue/[id] - A queue item with every report on the comment and
+// their status history (moderators and above)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canWorkModerationQueue(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const item = await db.moderationQueueItem.findUnique({
+      where: { id },
+      include: {
+        comment: {
+          include: {
+            user: {
+              select: {
+                anilist_user_id: true,
+                username: true,
+                profile_picture_url: true,
+                role: true
+              }
+            },
+            reports: {
+              orderBy: { created_at: 'desc' },
+              include: {
+                reporter: {
+                  select: {
+                    anilist_user_id: true,
+                    username: true,
+                    profile_picture_url: true,
+                    role: true
+                  }
+                },
+                status_changes: { orderBy: { created_at: 'asc' } }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!item) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Queue item not found'
+      }, { status: 404 });
+    }
+
+    // Each reporter's current track record, next to the weight their report was filed with
+    const { reports, ...comment } = item.comment;
+    const reportsWithAccuracy = await Promise.all(reports.map(async report => ({
+      ...report,
+      reporter_accuracy: await getReporterAccuracy(report.reporter)
+    })));
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        ...item,
+        comment: { ...comment, reports: reportsWithAccuracy },
+        claim_active: isClaimLive(item)
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET moderation queue item error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/moderation-queue/[id] - Work a queue item:
+//   { action: 'claim' }                               take the item (marks pending reports REVIEWED)
+//   { action: 'release' }                             give it back to the pool
+//   { action: 'assign', moderator_id }                hand it to a moderator (admins only)
+//   { action: 'resolve', note?, remove_comment? }     uphold every undecided report
+//   { action: 'dismiss', note? }                      reject every undecided report and uncollapse
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canWorkModerationQueue(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { action, moderator_id, remove_comment } = body;
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim().slice(0, 500) : null;
+
+    if (!QUEUE_ACTIONS.includes(action)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `action must be one of: ${QUEUE_ACTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const item = await db.moderationQueueItem.findUnique({
+      where: { id },
+      include: { comment: true }
+    });
+
+    if (!item) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Queue item not found'
+      }, { status: 404 });
+    }
+
+    if (item.status !== 'OPEN') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Queue item is already ${item.status.toLowerCase()}`
+      }, { status: 409 });
+    }
+
+    const actorRole = getUserRole(user);
+    const isAdmin = actorRole === Role.ADMIN || actorRole === Role.SUPER_ADMIN;
+    const heldByOther = isClaimLive(item) && item.assigned_to !== user.anilist_user_id;
+
+    let auditAction: string;
+    let auditDetails: Record<string, any> = { comment_id: item.comment_id };
+    let data: any;
+
+    if (action === 'claim') {
+      const result = await claimQueueItem(id, user.anilist_user_id, user.anilist_user_id);
+      data = result?.item;
+      auditAction = 'CLAIM_QUEUE_ITEM';
+
+    } else if (action === 'assign') {
+      if (!isAdmin) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Admin access required to assign queue items'
+        }, { status: 403 });
+      }
+
+      const assignee = typeof moderator_id === 'number'
+        ? await db.user.findUnique({ where: { anilist_user_id: moderator_id } })
+        : null;
+      if (!assignee || !canWorkModerationQueue(assignee as any)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'moderator_id must be a moderator or above'
+        }, { status: 400 });
+      }
+
+      const result = await claimQueueItem(id, user.anilist_user_id, assignee.anilist_user_id, true);
+      data = result?.item;
+      auditAction = 'ASSIGN_QUEUE_ITEM';
+      auditDetails.assigned_to = assignee.anilist_user_id;
+      auditDetails.previous_assignee = item.assigned_to;
+
+    } else if (action === 'release') {
+      if (heldByOther && !isAdmin) {
+        throw new QueueClaimError(item.assigned_to!, item.claimed_at!);
+      }
+      data = await releaseQueueItem(id);
+      auditAction = 'RELEASE_QUEUE_ITEM';
+      auditDetails.previous_assignee = item.assigned_to;
+
+    } else {
+      // Deciding someone else's claimed item would duplicate their work; admins may override
+      if (heldByOther && !isAdmin) {
+        throw new QueueClaimError(item.assigned_to!, item.claimed_at!);
+      }
+
+      const decision = action === 'resolve' ? 'RESOLVED' : 'DISMISSED';
+      const removeComment = decision === 'RESOLVED' && remove_comment === true && !item.comment.is_deleted;
+      const result = await decideQueueItem(id, user.anilist_user_id, decision, { note, removeComment });
+
+      if (!result) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Queue item was decided by someone else'
+        }, { status: 409 });
+      }
+
+      if (removeComment) {
+        await publishEvent('comment_delete', { media_id: item.comment.media_id, media_type: item.comment.media_type }, {
+          comment_id: item.comment_id,
+          deleted_by: user.anilist_user_id
+        });
+
+        await enqueueWebhookEvent('comment.deleted', {
+          comment_id: item.comment_id,
+          media_id: item.comment.media_id,
+          media_type: item.comment.media_type,
+          author_id: item.comment.anilist_user_id,
+          deleted_by: user.anilist_user_id
+        });
+      }
+
+      data = result.item;
+      auditAction = decision === 'RESOLVED' ? 'RESOLVE_QUEUE_ITEM' : 'DISMISS_QUEUE_ITEM';
+      auditDetails = {
+        ...auditDetails,
+        reports_updated: result.reports_updated,
+        report_weight: item.report_weight,
+        comment_removed: removeComment,
+        was_collapsed: item.comment.is_collapsed,
+        note
+      };
+    }
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: auditAction,
+        target_type: 'moderation_queue_item',
+        target_id: id,
+        details: auditDetails,
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data,
+      message: QUEUE_ACTION_MESSAGES[action]
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    if (error instanceof QueueClaimError) {
+      return queueClaimResponse(error);
+    }
+
+    console.error('PATCH moderation queue item error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
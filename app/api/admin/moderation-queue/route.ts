@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { canWorkModerationQueue } from '@/lib/permissions';
+import { CLAIM_TTL_MINUTES, UNDECIDED_REPORT_STATUSES, getAutoHideThreshold, isClaimLive } from '@/lib/moderation-queue';
+import { MODERATION_QUEUE_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/moderation-queue - Reported comments with their reports aggregated, heaviest
+// first (moderators and above).
+// ?status=OPEN (default) | RESOLVED | DISMISSED | ALL, ?assigned=me | unassigned | <user id>
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!canWorkModerationQueue(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'OPEN';
+    const assigned = searchParams.get('assigned');
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50), 1);
+    const cursor = searchParams.get('cursor');
+
+    if (!['OPEN', 'RESOLVED', 'DISMISSED', 'ALL'].includes(status)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid status. Must be OPEN, RESOLVED, DISMISSED or ALL'
+      }, { status: 400 });
+    }
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'moderation_queue', MODERATION_QUEUE_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const whereClause: any = {};
+    if (status !== 'ALL') whereClause.status = status;
+    if (assigned === 'me') {
+      whereClause.assigned_to = user.anilist_user_id;
+    } else if (assigned === 'unassigned') {
+      // Lapsed claims are back in the pool
+      whereClause.OR = [
+        { assigned_to: null },
+        { claimed_at: { lt: new Date(Date.now() - CLAIM_TTL_MINUTES * 60 * 1000) } }
+      ];
+    } else if (assigned) {
+      const assignee = parseInt(assigned);
+      if (!assignee) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Invalid assigned filter'
+        }, { status: 400 });
+      }
+      whereClause.assigned_to = assignee;
+    }
+
+    const [rows, total] = await Promise.all([
+      db.moderationQueueItem.findMany({
+        where: applyCursor(whereClause, MODERATION_QUEUE_SORT, cursorValues),
+        orderBy: buildOrderBy(MODERATION_QUEUE_SORT),
+        include: {
+          comment: {
+            include: {
+              user: {
+                select: {
+                  anilist_user_id: true,
+                  username: true,
+                  profile_picture_url: true,
+                  role: true
+                }
+              }
+            }
+          }
+        },
+        take: limit + 1
+      }),
+      db.moderationQueueItem.count({ where: whereClause })
+    ]);
+
+    const { items, hasMore, nextCursor } = toCursorPage(rows, limit, 'moderation_queue', MODERATION_QUEUE_SORT);
+
+    // Category breakdown of the undecided reports on each comment
+    const categoryCounts = items.length === 0 ? [] : await db.report.groupBy({
+      by: ['comment_id', 'category'],
+      where: {
+        comment_id: { in: items.map(item => item.comment_id) },
+        status: { in: UNDECIDED_REPORT_STATUSES }
+      },
+      _count: { _all: true }
+    });
+
+    const formattedItems = items.map(({ comment, ...item }) => ({
+      ...item,
+      claim_active: isClaimLive(item),
+      claim_expires_at: item.claimed_at
+        ? new Date(item.claimed_at.getTime() + CLAIM_TTL_MINUTES * 60 * 1000)
+        : null,
+      categories: categoryCounts
+        .filter(row => row.comment_id === item.comment_id)
+        .map(row => ({ category: row.category, count: row._count._all }))
+        .sort((a, b) => b.count - a.count),
+      comment: {
+        id: comment.id,
+        media_id: comment.media_id,
+        media_type: comment.media_type,
+        content: comment.content,
+        is_deleted: comment.is_deleted,
+        is_collapsed: comment.is_collapsed,
+        moderation_status: comment.moderation_status,
+        created_at: comment.created_at,
+        anilist_user_id: comment.anilist_user_id,
+        username: comment.user.username,
+        profile_picture_url: comment.user.profile_picture_url,
+        role: comment.user.role
+      }
+    }));
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        items: formattedItems,
+        auto_hide_threshold: getAutoHideThreshold(),
+        pagination: {
+          limit,
+          total,
+          hasMore,
+          next_cursor: nextCursor
+        }
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET moderation queue error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { isSuperAdmin } from '@/lib/permissions';
+import { clearRateLimitPolicyCache, parsePolicyInput } from '@/lib/rate-limit-policies';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// PATCH /api/admin/rate-limits/[id] - Update a policy; conditions can be cleared with null
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parsePolicyInput(body, true);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const existing = await db.rateLimitPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Rate limit policy not found'
+      }, { status: 404 });
+    }
+
+    const policy = await db.rateLimitPolicy.update({
+      where: { id },
+      data: parsed.data
+    });
+    clearRateLimitPolicyCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'UPDATE_RATE_LIMIT_POLICY',
+        target_type: 'rate_limit_policy',
+        target_id: id,
+        details: { changes: parsed.data },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: policy,
+      message: 'Rate limit policy updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PATCH rate limit policy error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/rate-limits/[id] - Remove a policy; affected users fall back to the next match
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const existing = await db.rateLimitPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Rate limit policy not found'
+      }, { status: 404 });
+    }
+
+    await db.rateLimitPolicy.delete({ where: { id } });
+    clearRateLimitPolicyCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'DELETE_RATE_LIMIT_POLICY',
+        target_type: 'rate_limit_policy',
+        target_id: id,
+        details: {
+          action_type: existing.action_type,
+          role: existing.role,
+          max: existing.max,
+          window: existing.window
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Rate limit policy deleted successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('DELETE rate limit policy error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
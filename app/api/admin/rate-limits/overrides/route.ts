@@ -0,0 +1,305 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { isSuperAdmin } from '@/lib/permissions';
+import {
+  ALL_ACTIONS,
+  RATE_LIMIT_ACTIONS,
+  isRateLimitAction,
+  resolveRateLimits,
+  validateLimitValues
+} from '@/lib/rate-limit-policies';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/rate-limits/overrides - List per-user overrides (super admin only).
+// With ?user_id= the user's effective limits for every action are included.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userIdParam = searchParams.get('user_id');
+    const userId = userIdParam ? parseInt(userIdParam) : null;
+
+    if (userIdParam && !userId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid user_id'
+      }, { status: 400 });
+    }
+
+    const overrides = await db.rateLimitOverride.findMany({
+      where: userId ? { user_id: userId } : {},
+      orderBy: { created_at: 'desc' },
+      include: {
+        user: {
+          select: { anilist_user_id: true, username: true, role: true }
+        }
+      },
+      take: 200
+    });
+
+    let effective = null;
+    if (userId) {
+      const targetUser = await db.user.findUnique({ where: { anilist_user_id: userId } });
+      if (!targetUser) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'User not found'
+        }, { status: 404 });
+      }
+      effective = await resolveRateLimits(targetUser);
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        overrides,
+        effective
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET rate limit overrides error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/rate-limits/overrides - Set a user's override for one action, or for every
+// action with action_type "*". Omitted max/window fall back to the built-in defaults.
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { user_id, max, window, exempt, reason, expires_at } = body;
+    const actionType = body.action_type ?? ALL_ACTIONS;
+
+    if (!user_id || typeof user_id !== 'number') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'user_id is required'
+      }, { status: 400 });
+    }
+
+    if (actionType !== ALL_ACTIONS && !isRateLimitAction(actionType)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `action_type must be "*" or one of: ${RATE_LIMIT_ACTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const limitError = validateLimitValues(max ?? undefined, window ?? undefined, false);
+    if (limitError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: limitError
+      }, { status: 400 });
+    }
+
+    if (exempt !== undefined && typeof exempt !== 'boolean') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'exempt must be a boolean'
+      }, { status: 400 });
+    }
+
+    if (!exempt && max == null && window == null) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Provide max, window or exempt'
+      }, { status: 400 });
+    }
+
+    const expiresAt = expires_at ? new Date(expires_at) : null;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'expires_at must be a future date'
+      }, { status: 400 });
+    }
+
+    const targetUser = await db.user.findUnique({ where: { anilist_user_id: user_id } });
+    if (!targetUser) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 });
+    }
+
+    const data = {
+      max: max ?? null,
+      window: window ?? null,
+      exempt: exempt === true,
+      reason: typeof reason === 'string' ? reason.slice(0, 200) : null,
+      expires_at: expiresAt,
+      created_by: user.anilist_user_id
+    };
+
+    const override = await db.rateLimitOverride.upsert({
+      where: {
+        user_id_action_type: { user_id, action_type: actionType }
+      },
+      create: { user_id, action_type: actionType, ...data },
+      update: data
+    });
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'SET_RATE_LIMIT_OVERRIDE',
+        target_type: 'user',
+        target_id: user_id.toString(),
+        details: {
+          override_id: override.id,
+          action_type: actionType,
+          max: data.max,
+          window: data.window,
+          exempt: data.exempt,
+          reason: data.reason,
+          expires_at: data.expires_at
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: override,
+      message: 'Rate limit override saved successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PUT rate limit override error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/rate-limits/overrides?user_id=...&action_type=... - Remove an override
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('user_id') || '');
+    const actionType = searchParams.get('action_type') || ALL_ACTIONS;
+
+    if (!userId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'user_id is required'
+      }, { status: 400 });
+    }
+
+    const result = await db.rateLimitOverride.deleteMany({
+      where: { user_id: userId, action_type: actionType }
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Rate limit override not found'
+      }, { status: 404 });
+    }
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'DELETE_RATE_LIMIT_OVERRIDE',
+        target_type: 'user',
+        target_id: userId.toString(),
+        details: { action_type: actionType },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Rate limit override removed successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('DELETE rate limit override error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { isSuperAdmin } from '@/lib/permissions';
+import { RATE_LIMITS, clearRateLimitPolicyCache, parsePolicyInput } from '@/lib/rate-limit-policies';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/rate-limits - List the built-in defaults and every policy (super admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const policies = await db.rateLimitPolicy.findMany({
+      orderBy: [{ action_type: 'asc' }, { priority: 'desc' }, { created_at: 'asc' }]
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        defaults: RATE_LIMITS,
+        policies
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET rate limit policies error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/rate-limits - Create a policy for an action, optionally scoped by
+// role, account age (days) and reputation
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parsePolicyInput(body, false);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const policy = await db.rateLimitPolicy.create({
+      data: {
+        ...parsed.data,
+        created_by: user.anilist_user_id
+      }
+    });
+    clearRateLimitPolicyCache();
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'CREATE_RATE_LIMIT_POLICY',
+        target_type: 'rate_limit_policy',
+        target_id: policy.id,
+        details: parsed.data,
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: policy,
+      message: 'Rate limit policy created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST rate limit policy error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { revokeUserSessions } from '@/lib/session';
 import { canPromoteDemote, Role } from '@/lib/permissions';
 import { RoleChangeRequest, ApiResponse } from '@/lib/types';
 
@@ -15,8 +19,10 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const actor = await upsertUser(anilistUser, db);
+    const { user: actor } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(actor);
+    if (banned) return banned;
 
     const body: RoleChangeRequest = await request.json();
     const { target_user_id, new_role, reason } = body;
@@ -86,6 +92,22 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    await publishEvent('role_change', null, {
+      user_id: target_user_id,
+      old_role: targetUser.role || Role.USER,
+      new_role
+    });
+
+    await revokeUserSessions(target_user_id);
+
+    await enqueueWebhookEvent('user.role_changed', {
+      user_id: target_user_id,
+      changed_by: actor.anilist_user_id,
+      old_role: targetUser.role || Role.USER,
+      new_role,
+      reason: reason || null
+    });
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: {
@@ -99,6 +121,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Role change error:', error);
+
     return NextResponse.json<ApiResponse>({
       success: false,
       error: 'Internal server error'
@@ -117,8 +140,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     const { searchParams } = new URL(request.url);
     const targetUserId = searchParams.get('target_user_id');
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
 import { canShadowBanUser, Role } from '@/lib/permissions';
+import { recountVotesByUser } from '@/lib/scoring';
+import { invalidateUserTokens } from '@/lib/token-cache';
+import { getClientIp } from '@/lib/client-ip';
 import { ShadowBanRequest, ApiResponse } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
@@ -15,8 +19,10 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const actor = await upsertUser(anilistUser, db);
+    const { user: actor } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(actor);
+    if (banned) return banned;
 
     const body: ShadowBanRequest = await request.json();
     const { user_id, reason, duration_hours } = body;
@@ -83,6 +89,10 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // Their votes stop counting toward public totals
+    await recountVotesByUser(user_id);
+    await invalidateUserTokens(user_id);
+
     // Create audit log
     await db.auditLog.create({
       data: {
@@ -95,7 +105,7 @@ export async function POST(request: NextRequest) {
           duration_hours: duration_hours || null,
           expires_at: expiresAt
         },
-        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+        ip_address: getClientIp(request),
         user_agent: request.headers.get('user-agent')
       }
     });
@@ -114,6 +124,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Shadow ban error:', error);
+
     return NextResponse.json<ApiResponse>({
       success: false,
       error: 'Internal server error'
@@ -132,8 +143,10 @@ export async function DELETE(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const actor = await upsertUser(anilistUser, db);
+    const { user: actor } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(actor);
+    if (banned) return banned;
 
     const { searchParams } = new URL(request.url);
     const user_id = searchParams.get('user_id');
@@ -175,6 +188,10 @@ export async function DELETE(request: NextRequest) {
       }
     });
 
+    // Their votes count again
+    await recountVotesByUser(parseInt(user_id));
+    await invalidateUserTokens(parseInt(user_id));
+
     // Create audit log
     await db.auditLog.create({
       data: {
@@ -186,7 +203,7 @@ export async function DELETE(request: NextRequest) {
           previous_reason: targetUser.shadow_ban_reason,
           previous_expires: targetUser.shadow_ban_expires
         },
-        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+        ip_address: getClientIp(request),
         user_agent: request.headers.get('user-agent')
       }
     });
@@ -203,6 +220,7 @@ export async function DELETE(request: NextRequest) {
 
   } catch (error) {
     console.error('Remove shadow ban error:', error);
+
     return NextResponse.json<ApiResponse>({
       success: false,
       error: 'Internal server error'
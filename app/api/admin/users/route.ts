@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
 import { canViewReports } from '@/lib/permissions';
+import { USER_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
 import { ApiResponse } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
@@ -15,8 +16,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     // Check permissions
     if (!canViewReports(user)) {
@@ -32,7 +32,17 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
 
-    const offset = (page - 1) * limit;
+    const cursor = searchParams.get('cursor');
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'users', USER_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const offset = cursorValues ? 0 : (page - 1) * limit;
 
     // Build where clause
     const whereClause: any = {};
@@ -55,10 +65,10 @@ export async function GET(request: NextRequest) {
     }
 
     // Get users with comment counts
-    const users = await db.user.findMany({
-      where: whereClause,
-      orderBy: { created_at: 'desc' },
-      take: limit,
+    const rows = await db.user.findMany({
+      where: applyCursor(whereClause, USER_SORT, cursorValues),
+      orderBy: buildOrderBy(USER_SORT),
+      take: limit + 1,
       skip: offset,
       include: {
         _count: {
@@ -71,13 +81,15 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    const { items: users, hasMore, nextCursor } = toCursorPage(rows, limit, 'users', USER_SORT);
+
     // Get total count
     const total = await db.user.count({
       where: whereClause
     });
 
     // Format user data
-    const formattedUsers = users.map(user => ({
+    const formattedUsers = users.map((user: any) => ({
       anilist_user_id: user.anilist_user_id,
       username: user.username,
       profile_picture_url: user.profile_picture_url,
@@ -104,7 +116,8 @@ export async function GET(request: NextRequest) {
           page,
           limit,
           total,
-          hasMore: offset + users.length < total
+          hasMore,
+          next_cursor: nextCursor
         }
       }
     });
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
 import { canViewReports } from '@/lib/permissions';
+import { COMMENT_SORTS, buildOrderBy } from '@/lib/pagination';
 import { ApiResponse } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
@@ -15,8 +16,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     // Check permissions
     if (!canViewReports(user)) {
@@ -29,7 +29,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
-    const sortBy = searchParams.get('sort') || 'recent';
+    const sortBy = searchParams.get('sort') || 'popular';
 
     const offset = (page - 1) * limit;
 
@@ -49,10 +49,10 @@ export async function GET(request: NextRequest) {
         ];
         break;
       case 'controversial':
-        orderBy = [
-          { total_votes: 'desc' },
-          { upvotes: 'asc' }
-        ];
+      case 'hot':
+      case 'best':
+        // Same cached scores as the public listing so rankings agree
+        orderBy = buildOrderBy(COMMENT_SORTS[sortBy]);
         break;
     }
 
@@ -74,10 +74,7 @@ export async function GET(request: NextRequest) {
         is_deleted: false,
         total_votes: { gt: 0 }
       },
-      orderBy: [
-        { total_votes: 'desc' },
-        { created_at: 'desc' }
-      ],
+      orderBy,
       include: {
         user: {
           select: {
@@ -236,6 +233,8 @@ export async function GET(request: NextRequest) {
           total_votes: comment.total_votes,
           upvotes: comment.upvotes,
           downvotes: comment.downvotes,
+          controversy_score: comment.controversy_score,
+          best_score: comment.best_score,
           depth_level: comment.depth_level,
           reply_count: comment._count.replies,
           created_at: comment.created_at,
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { isSuperAdmin } from '@/lib/permissions';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isValidWebhookUrl,
+  isWebhookEvent,
+  toPublicEndpoint
+} from '@/lib/webhooks';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// PATCH /api/admin/webhooks/[id] - Update url, events, description or is_active.
+// { rotate_secret: true } issues a new secret, returned only in this response.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { url, events, description, is_active, rotate_secret } = body;
+    const data: any = {};
+
+    if (url !== undefined) {
+      if (!isValidWebhookUrl(url)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'A valid http(s) url is required'
+        }, { status: 400 });
+      }
+      data.url = url;
+    }
+
+    if (events !== undefined) {
+      if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}`
+        }, { status: 400 });
+      }
+      data.events = Array.from(new Set(events));
+    }
+
+    if (description !== undefined) {
+      data.description = typeof description === 'string' ? description.slice(0, 200) : null;
+    }
+
+    if (is_active !== undefined) {
+      if (typeof is_active !== 'boolean') {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'is_active must be a boolean'
+        }, { status: 400 });
+      }
+      data.is_active = is_active;
+    }
+
+    if (rotate_secret === true) {
+      data.secret = generateWebhookSecret();
+    }
+
+    const existing = await db.webhookEndpoint.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Webhook endpoint not found'
+      }, { status: 404 });
+    }
+
+    const endpoint = await db.webhookEndpoint.update({
+      where: { id },
+      data
+    });
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'UPDATE_WEBHOOK',
+        target_type: 'webhook',
+        target_id: id,
+        details: {
+          changes: Object.keys(data).filter(key => key !== 'secret'),
+          secret_rotated: rotate_secret === true
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: rotate_secret === true ? endpoint : toPublicEndpoint(endpoint),
+      message: 'Webhook endpoint updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PATCH webhook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/webhooks/[id] - Remove an endpoint and its delivery history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const result = await db.webhookEndpoint.deleteMany({ where: { id } });
+    if (result.count === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Webhook endpoint not found'
+      }, { status: 404 });
+    }
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'DELETE_WEBHOOK',
+        target_type: 'webhook',
+        target_id: id,
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Webhook endpoint deleted successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('DELETE webhook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
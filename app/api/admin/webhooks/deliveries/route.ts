@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { isSuperAdmin } from '@/lib/permissions';
+import { WEBHOOK_DELIVERY_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
+import { isWebhookEvent, processWebhookOutbox, redeliver } from '@/lib/webhooks';
+import { ApiResponse } from '@/lib/types';
+
+const DELIVERY_STATUSES = Object.values(WebhookDeliveryStatus) as string[];
+
+// GET /api/admin/webhooks/deliveries - Delivery history, filterable by endpoint_id, status and event
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '50') || 50, 100), 1);
+    const endpointId = searchParams.get('endpoint_id');
+    const status = searchParams.get('status');
+    const event = searchParams.get('event');
+    const cursor = searchParams.get('cursor');
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid status. Use PENDING, DELIVERED or FAILED'
+      }, { status: 400 });
+    }
+
+    if (event && !isWebhookEvent(event)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid event'
+      }, { status: 400 });
+    }
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'webhook_deliveries', WEBHOOK_DELIVERY_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const whereClause: any = {};
+    if (endpointId) whereClause.endpoint_id = endpointId;
+    if (status) whereClause.status = status;
+    if (event) whereClause.event = event;
+
+    const rows = await db.webhookDelivery.findMany({
+      where: applyCursor(whereClause, WEBHOOK_DELIVERY_SORT, cursorValues),
+      include: {
+        endpoint: {
+          select: { url: true, is_active: true }
+        }
+      },
+      orderBy: buildOrderBy(WEBHOOK_DELIVERY_SORT),
+      take: limit + 1
+    });
+
+    const { items: deliveries, hasMore, nextCursor } = toCursorPage(rows, limit, 'webhook_deliveries', WEBHOOK_DELIVERY_SORT);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        deliveries,
+        hasMore,
+        next_cursor: nextCursor
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET webhook deliveries error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/webhooks/deliveries - { action: 'process' } drains due deliveries from the
+// outbox now; { action: 'redeliver', delivery_id } retries one delivery now
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { action, delivery_id } = body;
+
+    if (action === 'process') {
+      const attempted = await processWebhookOutbox();
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: { attempted },
+        message: `${attempted} deliveries attempted`
+      });
+    }
+
+    if (action === 'redeliver') {
+      if (!delivery_id || typeof delivery_id !== 'string') {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'delivery_id is required'
+        }, { status: 400 });
+      }
+
+      const requeued = await redeliver(delivery_id);
+      if (!requeued) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Delivery not found or already pending'
+        }, { status: 404 });
+      }
+
+      const delivery = await db.webhookDelivery.findUnique({ where: { id: delivery_id } });
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: delivery,
+        message: 'Delivery retried'
+      });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Invalid action. Use: process, redeliver'
+    }, { status: 400 });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST webhook deliveries error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { isSuperAdmin } from '@/lib/permissions';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isValidWebhookUrl,
+  isWebhookEvent,
+  toPublicEndpoint
+} from '@/lib/webhooks';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/admin/webhooks - List registered webhook endpoints (super admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const endpoints = await db.webhookEndpoint.findMany({
+      orderBy: { created_at: 'desc' },
+      include: {
+        _count: {
+          select: { deliveries: { where: { status: 'FAILED' } } }
+        }
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        endpoints: endpoints.map(({ _count, ...endpoint }) => ({
+          ...toPublicEndpoint(endpoint),
+          failed_deliveries: _count.deliveries
+        })),
+        available_events: WEBHOOK_EVENTS
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET webhooks error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/webhooks - Register an endpoint; the signing secret is only shown in this response
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!isSuperAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Super admin access required'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { url, events, secret, description } = body;
+
+    if (!isValidWebhookUrl(url)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'A valid http(s) url is required'
+      }, { status: 400 });
+    }
+
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'secret must be at least 16 characters'
+      }, { status: 400 });
+    }
+
+    const endpoint = await db.webhookEndpoint.create({
+      data: {
+        url,
+        events: Array.from(new Set(events)),
+        secret: secret || generateWebhookSecret(),
+        description: typeof description === 'string' ? description.slice(0, 200) : null,
+        created_by: user.anilist_user_id
+      }
+    });
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'CREATE_WEBHOOK',
+        target_type: 'webhook',
+        target_id: endpoint.id,
+        details: { url: endpoint.url, events: endpoint.events },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: endpoint,
+      message: 'Webhook endpoint created. Store the secret now; it will not be shown again'
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST webhook error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { clearExpiredBans } from '@/lib/bans';
+import { APPEAL_STATEMENT_MAX_LENGTH, APPEAL_STATEMENT_MIN_LENGTH } from '@/lib/appeals';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse, CreateAppealRequest } from '@/lib/types';
+
+// Appeals are the one write path banned users keep, so these handlers deliberately skip
+// rejectBannedUser.
+
+// GET /api/appeals - The user's appeals, and the active bans and warnings they can still appeal
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+    await clearExpiredBans(user, db);
+
+    const [appeals, bans, warnings] = await Promise.all([
+      db.appeal.findMany({
+        where: { user_id: user.anilist_user_id },
+        orderBy: { created_at: 'desc' },
+        include: { ban: true, warning: true }
+      }),
+      db.ban.findMany({
+        where: { user_id: user.anilist_user_id, is_active: true, appeal: null },
+        orderBy: { created_at: 'desc' }
+      }),
+      db.warning.findMany({
+        where: { user_id: user.anilist_user_id, is_active: true, appeal: null },
+        orderBy: { created_at: 'desc' }
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        // Who decided is not shown to the user, only the outcome and note
+        appeals: appeals.map(({ assigned_to, claimed_at, decided_by, ...appeal }) => appeal),
+        appealable: {
+          bans: bans.map(ban => ({
+            id: ban.id,
+            reason: ban.reason,
+            is_permanent: ban.is_permanent,
+            expires_at: ban.expires_at,
+            created_at: ban.created_at
+          })),
+          warnings: warnings.map(warning => ({
+            id: warning.id,
+            reason: warning.reason,
+            description: warning.description,
+            created_at: warning.created_at
+          }))
+        }
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET appeals error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// POST /api/appeals - Appeal a ban or warning: { ban_id | warning_id, statement }
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+    await clearExpiredBans(user, db);
+
+    const body: CreateAppealRequest = await request.json();
+    const { ban_id, warning_id } = body;
+    const statement = typeof body.statement === 'string' ? body.statement.trim() : '';
+
+    if (!ban_id === !warning_id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Exactly one of ban_id or warning_id is required'
+      }, { status: 400 });
+    }
+
+    if (statement.length < APPEAL_STATEMENT_MIN_LENGTH || statement.length > APPEAL_STATEMENT_MAX_LENGTH) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `statement must be between ${APPEAL_STATEMENT_MIN_LENGTH} and ${APPEAL_STATEMENT_MAX_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    const target = ban_id
+      ? await db.ban.findUnique({ where: { id: String(ban_id) }, include: { appeal: true } })
+      : await db.warning.findUnique({ where: { id: String(warning_id) }, include: { appeal: true } });
+
+    if (!target || target.user_id !== user.anilist_user_id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: ban_id ? 'Ban not found' : 'Warning not found'
+      }, { status: 404 });
+    }
+
+    if (!target.is_active) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: ban_id ? 'This ban is no longer active' : 'This warning is no longer active'
+      }, { status: 400 });
+    }
+
+    if (target.appeal) {
+      return alreadyAppealedResponse(!!ban_id);
+    }
+
+    let appeal;
+    try {
+      appeal = await db.appeal.create({
+        data: {
+          user_id: user.anilist_user_id,
+          ban_id: ban_id ? target.id : null,
+          warning_id: warning_id ? target.id : null,
+          statement
+        }
+      });
+    } catch (error) {
+      // A concurrent appeal of the same ban or warning won the unique ban_id / warning_id
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return alreadyAppealedResponse(!!ban_id);
+      }
+      throw error;
+    }
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: 'SUBMIT_APPEAL',
+        target_type: 'appeal',
+        target_id: appeal.id,
+        details: {
+          ban_id: appeal.ban_id,
+          warning_id: appeal.warning_id
+        },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        id: appeal.id,
+        ban_id: appeal.ban_id,
+        warning_id: appeal.warning_id,
+        statement: appeal.statement,
+        status: appeal.status,
+        created_at: appeal.created_at
+      },
+      message: 'Appeal submitted'
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('POST appeal error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+function alreadyAppealedResponse(isBan: boolean) {
+  return NextResponse.json<ApiResponse>({
+    success: false,
+    error: isBan ? 'You have already appealed this ban' : 'You have already appealed this warning'
+  }, { status: 409 });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { resolveRateLimits } from '@/lib/rate-limit-policies';
 import { ApiResponse } from '@/lib/types';
 
 // GET /api/auth/me - Get current user's role and permissions from database
@@ -15,10 +16,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-
-    // Get user from database (this uses the role field, not AniList moderatorStatus)
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     // Format response with role information
     return NextResponse.json<ApiResponse>({
@@ -28,6 +26,8 @@ export async function GET(request: NextRequest) {
           id: user.anilist_user_id,
           username: user.username,
           profile_picture_url: user.profile_picture_url,
+          provider: user.provider,
+          external_id: user.external_id,
         },
         // Role information from database
         role: user.role,
@@ -43,7 +43,10 @@ export async function GET(request: NextRequest) {
           can_view_audit_logs: user.is_admin || user.role === 'SUPER_ADMIN',
           can_promote_demote: user.is_admin || user.role === 'SUPER_ADMIN',
           can_shadow_ban: user.is_admin || user.role === 'SUPER_ADMIN',
-        }
+        },
+
+        // Effective rate limits per action and where each one comes from
+        rate_limits: await resolveRateLimits(user)
       }
     });
   } catch (error) {
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { issueSessionTokens, redeemRefreshToken, verifySessionToken } from '@/lib/session';
+import { ApiResponse } from '@/lib/types';
+
+// POST /api/auth/session/refresh - Trade a refresh token for a new access/refresh token pair.
+// The new tokens carry the user's current role. Each refresh token works once; revoked or
+// reused refresh tokens are rejected.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { refresh_token } = body;
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'refresh_token is required'
+      }, { status: 400 });
+    }
+
+    let claims;
+    try {
+      claims = await verifySessionToken(refresh_token, 'refresh');
+    } catch (error) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid or expired refresh token'
+      }, { status: 401 });
+    }
+
+    const user = await db.user.findUnique({
+      where: { anilist_user_id: claims.anilist_user_id }
+    });
+
+    if (!user || user.token_version !== claims.ver) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Session has been revoked'
+      }, { status: 401 });
+    }
+
+    const familyId = await redeemRefreshToken(claims);
+    if (!familyId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Refresh token is no longer valid. Sign in again'
+      }, { status: 401 });
+    }
+
+    const tokens = await issueSessionTokens(user, familyId);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: tokens,
+      message: 'Session refreshed successfully'
+    });
+
+  } catch (error) {
+    console.error('POST session refresh error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
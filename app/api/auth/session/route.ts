@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken, verifyIdentityToken, upsertUser } from '@/app/api/auth/verify';
+import { isSessionToken, issueSessionTokens, revokeUserSessions } from '@/lib/session';
+import { ApiResponse } from '@/lib/types';
+
+// POST /api/auth/session - Exchange an identity provider token (AniList by default, or
+// "myanimelist:<token>") for first-party access and refresh tokens
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (isSessionToken(token)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'An identity provider token is required. Use /api/auth/session/refresh to renew a session'
+      }, { status: 400 });
+    }
+
+    let user;
+    try {
+      const profile = await verifyIdentityToken(token);
+      user = await upsertUser(profile, db);
+    } catch (error) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid or expired identity token'
+      }, { status: 401 });
+    }
+
+    const tokens = await issueSessionTokens(user);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        ...tokens,
+        user: {
+          id: user.anilist_user_id,
+          username: user.username,
+          profile_picture_url: user.profile_picture_url,
+          role: user.role,
+          provider: user.provider
+        }
+      },
+      message: 'Session created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('POST session error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/session - Log out. Bumps the token version, which revokes every access and
+// refresh token issued to the user on any device.
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    let user;
+    try {
+      ({ user } = await authenticateToken(token, db));
+    } catch (error) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid or expired token'
+      }, { status: 401 });
+    }
+
+    await revokeUserSessions(user.anilist_user_id);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    console.error('DELETE session error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,113 +1,203 @@
-import { AniListUser } from '@/lib/types';
-import { Role } from '@/lib/permissions';
-import { Role as PrismaRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { AniListUser, IdentityProfile, RateLimitResult, ReadRoute } from '@/lib/types';
+import { InvalidIdentityTokenError, resolveIdentityProvider } from '@/lib/identity';
+import { isConfiguredSuperAdmin, resolveSignInRole, roleFlags } from '@/lib/roles';
+import { cacheVerification, getCachedVerification, invalidateUserTokens } from '@/lib/token-cache';
+import { isSessionToken, verifySessionToken } from '@/lib/session';
+import { checkReadRateLimit } from '@/lib/rate-limit';
+import { AuthenticationError } from '@/lib/auth-errors';
 
-// Create a type alias for the Role
-type RoleType = PrismaRole;
-
-export async function verifyAniListToken(token: string): Promise<AniListUser> {
+// Verifies a token with its identity provider (see lib/identity.ts). Results are cached by
+// token hash (see lib/token-cache.ts); rejected tokens are cached as well so repeated bad
+// requests do not reach the provider either.
+export async function verifyIdentityToken(token: string): Promise<IdentityProfile> {
   if (!token) {
-    throw new Error('No token provided');
+    throw new AuthenticationError('No token provided');
+  }
+
+  const cached = await getCachedVerification(token);
+  if (cached) {
+    if (!cached.profile) {
+      throw new AuthenticationError('Invalid or expired identity token');
+    }
+    return cached.profile;
   }
 
   try {
-    const response = await fetch('https://graphql.anilist.co', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'User-Agent': 'AnymeX-Comments'
-      },
-      body: JSON.stringify({
-        query: `
-          query {
-            Viewer {
-              id
-              name
-              avatar {
-                large
-                medium
-              }
-              moderatorStatus
+    const { provider, token: providerToken } = resolveIdentityProvider(token);
+    const profile = await provider.verifyToken(providerToken);
+
+    await cacheVerification(token, profile);
+    return profile;
+  } catch (error) {
+    console.error('Token verification failed:', error);
+    // Only a definitive rejection is negatively cached; outages and the provider's own rate
+    // limiting must not lock valid tokens out
+    if (error instanceof InvalidIdentityTokenError) {
+      await cacheVerification(token, null);
+    }
+    throw new AuthenticationError('Invalid or expired identity token');
+  }
+}
+
+// Prisma cannot declare standalone sequences, so the one behind allocateExternalUserId is
+// created by the migration (app/api/db/migrate.ts)
+export async function ensureExternalUserIdSequence(db: any): Promise<void> {
+  await db.$executeRawUnsafe('CREATE SEQUENCE IF NOT EXISTS external_user_id_seq');
+}
+
+// Accounts from providers without AniList ids get negative internal ids, so they can never
+// collide with an AniList id in anilist_user_id (which every table references)
+async function allocateExternalUserId(db: any): Promise<number> {
+  const [row] = await db.$queryRawUnsafe(`SELECT nextval('external_user_id_seq')::int AS id`);
+  return -row.id;
+}
+
+// Creates or refreshes the local account for a verified profile. Roles follow the policy in
+// lib/roles.ts; when a sign-in does change an existing role, a RoleChange is recorded and the
+// user's session tokens are revoked like for any other role change.
+export async function upsertUser(profile: IdentityProfile, db: any) {
+  const profileData = {
+    username: profile.username,
+    profile_picture_url: profile.avatar_url,
+    provider: profile.provider,
+    external_id: profile.external_id,
+    last_active: new Date()
+  };
+
+  try {
+    const existing = profile.anilist_user_id !== undefined
+      ? await db.user.findUnique({ where: { anilist_user_id: profile.anilist_user_id } })
+      : await db.user.findUnique({
+          where: {
+            provider_external_id: {
+              provider: profile.provider,
+              external_id: profile.external_id
             }
           }
-        `
-      })
-    });
+        });
 
-    if (!response.ok) {
-      throw new Error(`AniList API error: ${response.status}`);
-    }
+    if (existing) {
+      const role = resolveSignInRole(profile, existing.role);
+      if (role === existing.role) {
+        return await db.user.update({
+          where: { anilist_user_id: existing.anilist_user_id },
+          data: profileData
+        });
+      }
+
+      const [, updatedUser] = await db.$transaction([
+        db.roleChange.create({
+          data: {
+            target_user_id: existing.anilist_user_id,
+            changed_by_user_id: existing.anilist_user_id,
+            old_role: existing.role,
+            new_role: role,
+            reason: isConfiguredSuperAdmin(profile)
+              ? 'Listed in SUPER_ADMIN_IDS'
+              : `Synced from ${profile.provider} moderator status`
+          }
+        }),
+        db.user.update({
+          where: { anilist_user_id: existing.anilist_user_id },
+          data: {
+            ...profileData,
+            role,
+            ...roleFlags(role),
+            token_version: { increment: 1 }
+          }
+        })
+      ]);
 
-    const data = await response.json();
-    
-    if (data.errors) {
-      throw new Error(`AniList GraphQL error: ${data.errors[0].message}`);
+      await invalidateUserTokens(existing.anilist_user_id);
+      return updatedUser;
     }
 
-    const user = data.data.Viewer;
-    if (!user || !user.id) {
-      throw new Error('Invalid user data from AniList');
+    const role = resolveSignInRole(profile, null);
+    const createData = { ...profileData, role, ...roleFlags(role) };
+
+    if (profile.anilist_user_id !== undefined) {
+      // Upsert rather than create in case a concurrent first sign-in created the row meanwhile
+      return await db.user.upsert({
+        where: { anilist_user_id: profile.anilist_user_id },
+        update: profileData,
+        create: {
+          anilist_user_id: profile.anilist_user_id,
+          ...createData
+        }
+      });
     }
 
-    return {
-      id: user.id,
-      name: user.name,
-      avatar: user.avatar,
-      moderatorStatus: user.moderatorStatus
-    };
+    return await db.user.create({
+      data: {
+        anilist_user_id: await allocateExternalUserId(db),
+        ...createData
+      }
+    });
   } catch (error) {
-    console.error('Token verification failed:', error);
-    throw new Error('Invalid or expired AniList token');
+    console.error('User upsert failed:', error);
+    throw error;
+  }
+}
+
+// Shared auth helper for every route: accepts an identity provider token or a first-party
+// access token from POST /api/auth/session. Provider tokens are verified and upserted; access
+// tokens skip the provider entirely and are rejected once the user's token_version moved on.
+// anilistUser carries the internal user id (anilist_user_id) whichever provider was used.
+export async function authenticateToken(token: string, db: any): Promise<{ anilistUser: AniListUser; user: any }> {
+  let user;
+  if (!isSessionToken(token)) {
+    const profile = await verifyIdentityToken(token);
+    user = await upsertUser(profile, db);
+  } else {
+    const claims = await verifySessionToken(token, 'access');
+    user = await db.user.findUnique({
+      where: { anilist_user_id: claims.anilist_user_id }
+    });
+
+    if (!user || user.token_version !== claims.ver) {
+      throw new AuthenticationError('Invalid or expired session token');
+    }
   }
+
+  return {
+    anilistUser: {
+      id: user.anilist_user_id,
+      name: user.username,
+      avatar: user.profile_picture_url ? { large: user.profile_picture_url } : undefined
+    },
+    user
+  };
 }
 
-export async function upsertUser(anilistUser: AniListUser, db: any) {
-  // Check if this is the super admin user (ASheby - 5724017)
-  const isSuperAdmin = anilistUser.id === 5724017;
-  
-  // Determine role based on AniList status and special cases
-  let role: RoleType = PrismaRole.USER;
-  
-  if (isSuperAdmin) {
-    role = PrismaRole.SUPER_ADMIN;
-  } else if (anilistUser.moderatorStatus === 'ADMIN') {
-    role = PrismaRole.ADMIN;
-  } else if (anilistUser.moderatorStatus === 'MODERATOR') {
-    role = PrismaRole.MODERATOR;
+// Optional authentication for read endpoints, charged to the read budget. A token that would
+// have to be sent to the identity provider (not a session token, not cached) spends the IP's
+// budget first, so junk tokens cannot reach the provider without being throttled. Otherwise
+// verified users are budgeted per account and everyone else per IP.
+export async function authenticateReader(
+  request: NextRequest,
+  route: ReadRoute,
+  db: any
+): Promise<{ anilistUser: AniListUser | null; user: any; rateLimit: RateLimitResult }> {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader) {
+    return { anilistUser: null, user: null, rateLimit: await checkReadRateLimit(request, route) };
   }
 
-  // For backward compatibility, set boolean flags
-  const isMod = role === PrismaRole.MODERATOR || role === PrismaRole.ADMIN || role === PrismaRole.SUPER_ADMIN;
-  const isAdmin = role === PrismaRole.ADMIN || role === PrismaRole.SUPER_ADMIN;
+  const token = authHeader.replace('Bearer ', '');
+  const reachesProvider = !isSessionToken(token) && !(await getCachedVerification(token));
+  const ipRateLimit = reachesProvider ? await checkReadRateLimit(request, route) : null;
 
   try {
-    const user = await db.user.upsert({
-      where: {
-        anilist_user_id: anilistUser.id
-      },
-      update: {
-        username: anilistUser.name,
-        profile_picture_url: anilistUser.avatar?.large || anilistUser.avatar?.medium,
-        role: role,
-        is_mod: isMod,
-        is_admin: isAdmin,
-        last_active: new Date()
-      },
-      create: {
-        anilist_user_id: anilistUser.id,
-        username: anilistUser.name,
-        profile_picture_url: anilistUser.avatar?.large || anilistUser.avatar?.medium,
-        role: role,
-        is_mod: isMod,
-        is_admin: isAdmin,
-        last_active: new Date()
-      }
-    });
-
-    return user;
+    const { anilistUser, user } = await authenticateToken(token, db);
+    return {
+      anilistUser,
+      user,
+      rateLimit: ipRateLimit || await checkReadRateLimit(request, route, anilistUser.id)
+    };
   } catch (error) {
-    console.error('User upsert failed:', error);
-    throw error;
+    // Token verification failed, but allow read access
+    console.warn('Optional auth failed:', error);
+    return { anilistUser: null, user: null, rateLimit: ipRateLimit || await checkReadRateLimit(request, route) };
   }
 }
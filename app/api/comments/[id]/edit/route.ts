@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { canEditComment, getUserRole, Role } from '@/lib/permissions';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { canEditComment, getUserRole, isShadowBanned, Role } from '@/lib/permissions';
+import { MAX_MENTIONS_PER_COMMENT, notifyMentionedUsers, resolveMentions, syncCommentMentions } from '@/lib/mentions';
 import { EditCommentRequest, ApiResponse } from '@/lib/types';
 import { logUserAction } from '@/lib/audit';
+import {
+  AutomodRejectedError,
+  AutomodSubject,
+  applyAutomodTags,
+  automodRejectedResponse,
+  evaluateAutomod,
+  recordAutomodActions,
+  strongerModerationStatus
+} from '@/lib/automod';
 
 export async function PATCH(
   request: NextRequest,
@@ -25,13 +36,13 @@ export async function PATCH(
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
+    const { anilistUser, user } = await authenticateToken(token, db);
 
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
 
     // Check rate limit
-    await checkRateLimit(anilistUser.id, 'edit', db);
+    const rateLimit = await checkRateLimit(user, 'edit');
 
     const body: EditCommentRequest = await request.json();
     const { content, reason } = body;
@@ -63,7 +74,9 @@ export async function PATCH(
             is_admin: true,
             role: true,
             username: true,
-            profile_picture_url: true
+            profile_picture_url: true,
+            shadow_banned: true,
+            shadow_ban_expires: true
           }
         }
       }
@@ -96,6 +109,33 @@ export async function PATCH(
       }, { status: 403 });
     }
 
+    const mentions = await resolveMentions(content);
+    if (mentions.length > MAX_MENTIONS_PER_COMMENT) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Too many mentions (max ${MAX_MENTIONS_PER_COMMENT} per comment)`
+      }, { status: 400 });
+    }
+
+    if (mentions.length > 0) {
+      await checkRateLimit(user, 'mention');
+    }
+
+    // Edits are automoderated like new comments; they can hold or hide a comment but never
+    // release one
+    const automodSubject: AutomodSubject = {
+      content: content.trim(),
+      media_id: comment.media_id,
+      media_type: comment.media_type,
+      is_edit: true,
+      author: user
+    };
+    const verdict = await evaluateAutomod(automodSubject);
+    if (verdict.rejection) {
+      await recordAutomodActions(request, verdict, automodSubject, commentIdNumber);
+      throw new AutomodRejectedError(verdict.rejection);
+    }
+
     // Store edit history
     const currentEditHistory = comment.edit_history as any[] || [];
     const newEditEntry = {
@@ -111,7 +151,8 @@ export async function PATCH(
         content: content.trim(),
         is_edited: true,
         updated_at: new Date(),
-        edit_history: [...currentEditHistory, newEditEntry]
+        edit_history: [...currentEditHistory, newEditEntry],
+        moderation_status: strongerModerationStatus(comment.moderation_status, verdict.moderation_status)
       },
       include: {
         user: {
@@ -129,6 +170,15 @@ export async function PATCH(
       }
     });
 
+    await recordAutomodActions(request, verdict, automodSubject, commentIdNumber);
+    const tags = verdict.tags.length > 0 ? await applyAutomodTags(commentIdNumber, verdict) : updatedComment.tags;
+
+    // Only users newly mentioned by this edit are notified, and only while the comment is public
+    const addedMentions = await syncCommentMentions(commentIdNumber, mentions);
+    if (!isShadowBanned(comment.user) && updatedComment.moderation_status === 'VISIBLE') {
+      await notifyMentionedUsers(updatedComment, comment.user.username, addedMentions);
+    }
+
     // Create audit log
     await logUserAction(request, user.anilist_user_id, 'EDIT_COMMENT', 'comment', String(commentIdNumber), {
       original_content: comment.content,
@@ -161,26 +211,29 @@ export async function PATCH(
       is_mod: updatedComment.user.is_mod,
       is_admin: updatedComment.user.is_admin,
       role: updatedComment.user.role,
-      tags: updatedComment.tags
+      tags,
+      mentions,
+      ...(updatedComment.moderation_status === 'HELD' ? { moderation_status: updatedComment.moderation_status } : {})
     };
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: formattedComment,
       message: 'Comment updated successfully'
-    });
+    }), rateLimit);
 
   } catch (error) {
     console.error('PATCH comment error:', error);
+
+    if (error instanceof AutomodRejectedError) {
+      return automodRejectedResponse(error);
+    }
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
     
     if (error instanceof Error) {
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: error.message
-        }, { status: 429 });
-      }
-      
       if (error.message.includes('Invalid') || error.message.includes('required')) {
         return NextResponse.json<ApiResponse>({
           success: false,
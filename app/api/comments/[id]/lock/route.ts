@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { rejectBannedUser } from '@/lib/bans';
+import { canLockDiscussions } from '@/lib/permissions';
+import { restrictionExpiresAt } from '@/lib/locks';
+import { publishEvent } from '@/lib/events';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse } from '@/lib/types';
+
+// POST /api/comments/[id]/lock - Lock a thread so it takes no new replies (moderators and above).
+// { reason?, duration_minutes? } - without a duration the lock lasts until lifted.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return setThreadLock(request, params, true);
+}
+
+// DELETE /api/comments/[id]/lock - Reopen a locked thread
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return setThreadLock(request, params, false);
+}
+
+async function setThreadLock(request: NextRequest, params: Promise<{ id: string }>, lock: boolean) {
+  try {
+    const { id } = await params;
+    const commentId = parseInt(id, 10);
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
+
+    if (!canLockDiscussions(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Moderator access required'
+      }, { status: 403 });
+    }
+
+    const body = lock ? await request.json().catch(() => ({})) : {};
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 200) : null;
+    const expiresAt = lock ? restrictionExpiresAt(body.duration_minutes) : null;
+
+    if (expiresAt === undefined) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid duration_minutes. Must be a positive integer'
+      }, { status: 400 });
+    }
+
+    const comment = commentId ? await db.comment.findUnique({ where: { id: commentId } }) : null;
+    if (!comment) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Comment not found'
+      }, { status: 404 });
+    }
+
+    // Locks apply to whole threads, which are identified by their root comment
+    if (comment.parent_comment_id !== null) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Only top-level comments can be locked. Lock the thread's root comment (${comment.root_comment_id}) instead.`
+      }, { status: 400 });
+    }
+
+    const updated = await db.comment.update({
+      where: { id: comment.id },
+      data: lock
+        ? { is_locked: true, lock_expires: expiresAt, locked_by: user.anilist_user_id, lock_reason: reason }
+        : { is_locked: false, lock_expires: null, locked_by: null, lock_reason: null }
+    });
+
+    await db.auditLog.create({
+      data: {
+        user_id: user.anilist_user_id,
+        action: lock ? 'LOCK_THREAD' : 'UNLOCK_THREAD',
+        target_type: 'comment',
+        target_id: String(comment.id),
+        details: lock
+          ? { reason, expires_at: expiresAt, media_id: comment.media_id, media_type: comment.media_type }
+          : { was_locked: comment.is_locked, previous_reason: comment.lock_reason, previous_expires: comment.lock_expires },
+        ip_address: getClientIp(request),
+        user_agent: request.headers.get('user-agent')
+      }
+    });
+
+    await publishEvent('discussion_lock', { media_id: comment.media_id, media_type: comment.media_type }, {
+      scope: 'thread',
+      comment_id: comment.id,
+      is_locked: lock,
+      expires_at: updated.lock_expires
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        comment_id: updated.id,
+        is_locked: updated.is_locked,
+        lock_expires: updated.lock_expires,
+        lock_reason: updated.lock_reason,
+        locked_by: updated.locked_by
+      },
+      message: lock ? 'Thread locked' : 'Thread unlocked'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('Thread lock error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateReader } from '@/app/api/auth/verify';
+import { RateLimitError, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import {
+  DEFAULT_REPLIES_PER_NODE,
+  MAX_REPLIES_PER_NODE,
+  DEFAULT_REPLY_SORT,
+  attachReplyTrees,
+  buildCommentInclude,
+  formatComment,
+  parseReplyLimits
+} from '@/lib/comment-tree';
+import { applyCursor, buildOrderBy, decodeCursor, resolveCommentSort, toCursorPage } from '@/lib/pagination';
+import { buildVisibilityWhere, isHiddenFromViewer, isModeratorViewer } from '@/lib/visibility';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/comments/[id]/replies - Next slice of direct replies under a comment ("load more replies")
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const commentIdNumber = parseInt(id, 10);
+    const { searchParams } = new URL(request.url);
+    const cursor = searchParams.get('cursor');
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || String(DEFAULT_REPLIES_PER_NODE)), MAX_REPLIES_PER_NODE), 1);
+    const depth = Math.max(Math.min(parseInt(searchParams.get('max_depth') || '5'), 20), 1); // Levels below this comment
+    const includeDeleted = searchParams.get('include_deleted') === 'true';
+
+    if (isNaN(commentIdNumber)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid comment id'
+      }, { status: 400 });
+    }
+
+    // Must match the reply sort the continuation cursor was issued for
+    const { sortKey, fields: sortFields } = resolveCommentSort(searchParams.get('reply_sort'), DEFAULT_REPLY_SORT);
+    const cursorValues = cursor ? decodeCursor(cursor, sortKey, sortFields) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    // Optional auth; anonymous reads are budgeted per IP, verified users per account
+    const { anilistUser, rateLimit } = await authenticateReader(request, 'replies', db);
+    const userId = anilistUser ? anilistUser.id : null;
+    const isModerator = await isModeratorViewer(userId);
+
+    const parent = await db.comment.findUnique({
+      where: { id: commentIdNumber },
+      select: {
+        id: true,
+        depth_level: true,
+        user: {
+          select: { anilist_user_id: true, shadow_banned: true, shadow_ban_expires: true }
+        }
+      }
+    });
+
+    if (!parent || isHiddenFromViewer(parent, userId, isModerator)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Comment not found'
+      }, { status: 404 });
+    }
+
+    const whereClause: any = {
+      parent_comment_id: commentIdNumber,
+      ...buildVisibilityWhere(userId, isModerator)
+    };
+    if (!includeDeleted) {
+      whereClause.is_deleted = false;
+    }
+
+    const rows = await db.comment.findMany({
+      where: applyCursor(whereClause, sortFields, cursorValues),
+      orderBy: buildOrderBy(sortFields),
+      include: buildCommentInclude(userId, includeDeleted, isModerator),
+      take: limit + 1
+    });
+
+    const { items: replies, hasMore, nextCursor } = toCursorPage(rows, limit, sortKey, sortFields);
+    const formattedReplies = replies.map((reply: any) => formatComment(reply, [], isModerator));
+
+    await attachReplyTrees(formattedReplies, {
+      userId,
+      isModerator,
+      maxDepth: parent.depth_level + 1 + depth,
+      includeDeleted,
+      ...parseReplyLimits(searchParams)
+    });
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        parent_comment_id: parent.id,
+        replies: formattedReplies,
+        hasMore,
+        next_cursor: nextCursor
+      }
+    }), rateLimit);
+
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    console.error('GET replies error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
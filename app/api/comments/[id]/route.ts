@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { canDeleteComment } from '@/lib/permissions';
+import { authenticateReader, authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { canDeleteComment, isShadowBanned } from '@/lib/permissions';
+import { countedVoteWhere, isHiddenFromViewer, isModeratorViewer } from '@/lib/visibility';
+import { notifyModeration, previewContent } from '@/lib/notifications';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { isRestrictionLive } from '@/lib/locks';
 import { ApiResponse } from '@/lib/types';
 import { logUserAction } from '@/lib/audit';
 
@@ -13,6 +19,12 @@ export async function GET(
   try {
     const { id: commentId } = await params;
 
+    // Optional auth (decides shadow-ban visibility); anonymous reads are budgeted per IP,
+    // verified users per account
+    const { anilistUser, rateLimit } = await authenticateReader(request, 'comment', db);
+    const userId = anilistUser ? anilistUser.id : null;
+    const isModerator = await isModeratorViewer(userId);
+
     const comment = await db.comment.findUnique({
       where: { id: parseInt(commentId, 10) },
       include: {
@@ -26,15 +38,19 @@ export async function GET(
             is_admin: true,
             role: true,
             is_banned: true,
-            shadow_banned: true
+            shadow_banned: true,
+            shadow_ban_expires: true
           }
         },
-        votes: true,
+        // Votes from shadow-banned users are not counted publicly
+        votes: {
+          where: countedVoteWhere()
+        },
         tags: true
       }
     });
 
-    if (!comment) {
+    if (!comment || isHiddenFromViewer(comment, userId, isModerator)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Comment not found'
@@ -44,12 +60,13 @@ export async function GET(
     const upvotes = comment.votes.filter(vote => vote.vote_type === 1).length;
     const downvotes = comment.votes.filter(vote => vote.vote_type === -1).length;
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: {
         id: comment.id,
         media_id: comment.media_id,
         media_type: comment.media_type,
+        unit_number: comment.unit_number,
         parent_comment_id: comment.parent_comment_id,
         root_comment_id: comment.root_comment_id,
         depth_level: comment.depth_level,
@@ -64,6 +81,9 @@ export async function GET(
         is_edited: comment.is_edited,
         is_pinned: comment.is_pinned,
         pin_expires: comment.pin_expires,
+        is_locked: isRestrictionLive(comment.is_locked, comment.lock_expires),
+        lock_expires: comment.lock_expires,
+        is_collapsed: comment.is_collapsed,
         edit_history: comment.edit_history,
         created_at: comment.created_at,
         updated_at: comment.updated_at,
@@ -72,10 +92,15 @@ export async function GET(
         is_mod: comment.user?.is_mod || false,
         is_admin: comment.user?.is_admin || false,
         role: comment.user?.role,
-        tags: comment.tags
+        tags: comment.tags,
+        ...(isModerator && isShadowBanned(comment.user) ? { author_shadow_banned: true } : {})
       }
-    });
+    }), rateLimit);
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('Get comment error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
@@ -100,13 +125,13 @@ export async function DELETE(
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
+    const { anilistUser, user } = await authenticateToken(token, db);
 
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
 
     // Check rate limit
-    await checkRateLimit(anilistUser.id, 'delete', db);
+    const rateLimit = await checkRateLimit(user, 'delete');
 
     // Get comment with user data
     const comment = await db.comment.findUnique({
@@ -157,22 +182,41 @@ export async function DELETE(
       original_content: comment.content
     });
 
-    return NextResponse.json<ApiResponse>({
+    // Authors are told when someone else removed their comment
+    await notifyModeration(comment.anilist_user_id, user.anilist_user_id, 'Your comment was removed by a moderator',
+      previewContent(comment.content), {
+        comment_id: comment.id,
+        media_id: comment.media_id,
+        media_type: comment.media_type,
+        action: 'delete'
+      });
+
+    await publishEvent('comment_delete', { media_id: comment.media_id, media_type: comment.media_type }, {
+      comment_id: comment.id,
+      deleted_by: user.anilist_user_id
+    });
+
+    await enqueueWebhookEvent('comment.deleted', {
+      comment_id: comment.id,
+      media_id: comment.media_id,
+      media_type: comment.media_type,
+      author_id: comment.anilist_user_id,
+      deleted_by: user.anilist_user_id
+    });
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       message: 'Comment deleted successfully'
-    });
+    }), rateLimit);
 
   } catch (error) {
     console.error('Delete comment error:', error);
 
-    if (error instanceof Error) {
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: error.message
-        }, { status: 429 });
-      }
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
 
+    if (error instanceof Error) {
       if (error.message.includes('Invalid') || error.message.includes('required')) {
         return NextResponse.json<ApiResponse>({
           success: false,
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkReadRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
 import { canTagComment } from '@/lib/permissions';
+import { notifyModeration } from '@/lib/notifications';
+import { publishEvent } from '@/lib/events';
 import { CreateCommentTagRequest, ApiResponse } from '@/lib/types';
 import { TagType } from '@prisma/client';
 
@@ -16,8 +20,10 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
 
     const body: CreateCommentTagRequest = await request.json();
     const { tag_type, expires_at } = body;
@@ -105,6 +111,29 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
       });
     }
 
+    await notifyModeration(
+      comment.anilist_user_id,
+      user.anilist_user_id,
+      tagTypeEnum === 'PINNED' ? 'Your comment was pinned' : `Your comment was tagged as ${tagTypeEnum}`,
+      tagTypeEnum === 'PINNED'
+        ? 'A moderator pinned your comment'
+        : `A moderator tagged your comment as ${tagTypeEnum.toLowerCase()}`,
+      {
+        comment_id: comment.id,
+        media_id: comment.media_id,
+        media_type: comment.media_type,
+        tag_type: tagTypeEnum,
+        action: 'tag'
+      }
+    );
+
+    await publishEvent('comment_tag', { media_id: comment.media_id, media_type: comment.media_type }, {
+      comment_id: comment.id,
+      tag_type: tagTypeEnum,
+      expires_at: commentTag.expires_at,
+      action: 'added'
+    });
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: commentTag,
@@ -113,6 +142,7 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
 
   } catch (error) {
     console.error('Comment tag error:', error);
+
     return NextResponse.json<ApiResponse>({
       success: false,
       error: 'Internal server error'
@@ -131,8 +161,10 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
 
     const { searchParams } = new URL(request.url);
     const tag_type = searchParams.get('tag_type');
@@ -184,6 +216,18 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       });
     }
 
+    const comment = await db.comment.findUnique({
+      where: { id: parseInt(params.id, 10) },
+      select: { id: true, media_id: true, media_type: true }
+    });
+    if (comment) {
+      await publishEvent('comment_tag', { media_id: comment.media_id, media_type: comment.media_type }, {
+        comment_id: comment.id,
+        tag_type: tagTypeEnum,
+        action: 'removed'
+      });
+    }
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: deletedTag,
@@ -192,6 +236,7 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
 
   } catch (error) {
     console.error('Delete comment tag error:', error);
+
     return NextResponse.json<ApiResponse>({
       success: false,
       error: 'Tag not found or internal server error'
@@ -201,6 +246,8 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const rateLimit = await checkReadRateLimit(request, 'tags');
+
     // Get all tags for a comment (no auth required for reading)
     const tags = await db.commentTag.findMany({
       where: { comment_id: params.id },
@@ -212,12 +259,16 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
       orderBy: { created_at: 'desc' }
     });
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: tags
-    });
+    }), rateLimit);
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('Get comment tags error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
@@ -1,11 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { db } from '@/app/api/db/connection';
+import { authenticateReader } from '@/app/api/auth/verify';
+import { RateLimitError, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import {
+  DEFAULT_REPLY_SORT,
+  attachReplyTrees,
+  buildCommentInclude,
+  formatComment,
+  parseReplyLimits
+} from '@/lib/comment-tree';
+import { applyCursor, buildOrderBy, decodeCursor, resolveCommentSort, toCursorPage } from '@/lib/pagination';
+import { buildVisibilityWhere, isHiddenFromViewer, isModeratorViewer } from '@/lib/visibility';
 import { ApiResponse } from '@/lib/types';
 
-export async function GET(request: NextRequest) {
+const MAX_THREAD_DEPTH = 20;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
   try {
+    const { id } = await params;
     const { searchParams } = new URL(request.url);
-    const commentId = searchParams.get('comment_id');
+    const commentId = searchParams.get('comment_id') || id;
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const cursor = searchParams.get('cursor');
 
     if (!commentId) {
       return NextResponse.json<ApiResponse>({
@@ -17,14 +38,83 @@ export async function GET(request: NextRequest) {
     // Parse commentId to number for database queries (Comment.id is now Int)
     const commentIdNumber = parseInt(commentId, 10);
 
-    // Get full comment thread recursively
-    const fullThread = await getFullCommentThread(commentIdNumber, 20, 0);
+    // Direct replies are listed oldest first unless reply_sort says otherwise, and share
+    // cursors with GET /api/comments/[id]/replies
+    const { sortKey, fields: sortFields } = resolveCommentSort(searchParams.get('reply_sort'), DEFAULT_REPLY_SORT);
+    const cursorValues = cursor ? decodeCursor(cursor, sortKey, sortFields) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
 
-    return NextResponse.json<ApiResponse>({
-      success: true,
-      data: fullThread
+    const offset = cursorValues ? 0 : (page - 1) * limit;
+
+    // Optional auth (decides shadow-ban visibility); anonymous reads are budgeted per IP,
+    // verified users per account
+    const { anilistUser, rateLimit } = await authenticateReader(request, 'thread', db);
+    const userId = anilistUser ? anilistUser.id : null;
+    const isModerator = await isModeratorViewer(userId);
+
+    const comment = await db.comment.findUnique({
+      where: { id: commentIdNumber },
+      include: buildCommentInclude(userId, true, isModerator)
+    });
+
+    if (!comment || isHiddenFromViewer(comment, userId, isModerator)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Comment not found'
+      }, { status: 404 });
+    }
+
+    const maxDepth = comment.depth_level + MAX_THREAD_DEPTH;
+
+    // Page through the direct replies; each one comes with its full subtree
+    const rows = await db.comment.findMany({
+      where: applyCursor({
+        parent_comment_id: commentIdNumber,
+        ...buildVisibilityWhere(userId, isModerator)
+      }, sortFields, cursorValues),
+      orderBy: buildOrderBy(sortFields),
+      include: buildCommentInclude(userId, true, isModerator),
+      skip: offset,
+      take: limit + 1
     });
+
+    const { items: replies, hasMore, nextCursor } = toCursorPage(rows, limit, sortKey, sortFields);
+
+    const formattedReplies = replies.map((reply: any) => formatComment(reply, [], isModerator));
+
+    await attachReplyTrees(formattedReplies, {
+      userId,
+      isModerator,
+      maxDepth,
+      includeDeleted: true,
+      ...parseReplyLimits(searchParams)
+    });
+
+    const threadStats = await getThreadStats(comment, maxDepth, buildVisibilityWhere(userId, isModerator));
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        comment: formatComment(comment, formattedReplies, isModerator),
+        thread_stats: threadStats,
+        pagination: {
+          page,
+          limit,
+          hasMore,
+          next_cursor: nextCursor
+        }
+      }
+    }), rateLimit);
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('Get comment thread error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
@@ -33,138 +123,47 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getFullCommentThread(commentId: number, maxDepth: number = 20, currentDepth: number = 0): Promise<any> {
-  if (currentDepth >= maxDepth) {
-    throw new Error('Maximum thread depth exceeded');
-  }
-
-  // Get comment
-  const comment = await db.comment.findUnique({
-      where: { id: commentId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            anilist_user_id: true,
-            username: true,
-            profile_picture_url: true,
-            is_mod: true,
-            is_admin: true,
-            role: true
-          }
-        },
-        votes: true,
-        tags: true,
-        _count: {
-          select: {
-            replies: {
-              where: { is_deleted: false }
-            }
-          }
-        }
-    }
-  });
-
-  if (!comment) {
-    throw new Error('Comment not found');
-  }
-
-  // Get all replies recursively
-  const replies = await db.comment.findMany({
+// Stats cover the whole subtree the viewer can see, not just the current page of replies
+async function getThreadStats(comment: any, maxDepth: number, visibilityWhere: Prisma.CommentWhereInput) {
+  const threadRows = await db.comment.findMany({
     where: {
-      parent_comment_id: commentId,
-      depth_level: currentDepth + 1
+      root_comment_id: comment.root_comment_id ?? comment.id,
+      depth_level: { gt: comment.depth_level, lt: maxDepth },
+      ...visibilityWhere
     },
-    orderBy: { created_at: 'asc' },
-    include: {
-      user: {
-        select: {
-          id: true,
-          anilist_user_id: true,
-          username: true,
-          profile_picture_url: true,
-          is_mod: true,
-          is_admin: true,
-          role: true
-        }
-      },
-      votes: true,
-      tags: true,
-      _count: {
-        select: {
-          replies: {
-            where: { is_deleted: false }
-          }
-        }
-      }
+    select: {
+      id: true,
+      parent_comment_id: true,
+      depth_level: true,
+      upvotes: true,
+      downvotes: true
     }
   });
 
-  // Recursively get nested replies
-  const nestedReplies = await Promise.all(
-      replies.map(async (reply) => {
-        return await getFullCommentThread(reply.id, maxDepth, currentDepth + 1);
-      })
-    );
-
-  // Calculate vote counts
-  const upvotes = comment.votes.filter(vote => vote.vote_type === 1).length;
-  const downvotes = comment.votes.filter(vote => vote.vote_type === -1).length;
-
-  // Calculate thread statistics
-  const totalComments = 1 + nestedReplies.reduce((acc, thread) => {
-    return acc + (thread.thread_stats?.total_comments || 0);
-  }, 0);
-
-  const maxThreadDepth = Math.max(
-    comment.depth_level,
-    ...nestedReplies.map(thread => thread.thread_stats?.max_depth || 0)
-  );
-
-  const totalUpvotes = upvotes + nestedReplies.reduce((acc, thread) => {
-    return acc + (thread.thread_stats?.total_upvotes || 0);
-  }, 0);
-
-  const totalDownvotes = downvotes + nestedReplies.reduce((acc, thread) => {
-    return acc + (thread.thread_stats?.total_downvotes || 0);
-  }, 0);
-
-  return {
-    comment: {
-      id: comment.id,
-      media_id: comment.media_id,
-      media_type: comment.media_type,
-      parent_comment_id: comment.parent_comment_id,
-      root_comment_id: comment.root_comment_id,
-      depth_level: comment.depth_level,
-      content: comment.is_deleted ? '[deleted]' : comment.content,
-      anilist_user_id: comment.anilist_user_id,
-      upvotes,
-      downvotes,
-      total_votes: upvotes + downvotes,
-      is_deleted: comment.is_deleted,
-      deleted_by: comment.deleted_by,
-      delete_reason: comment.delete_reason,
-      is_edited: comment.is_edited,
-      is_pinned: comment.is_pinned,
-      pin_expires: comment.pin_expires,
-      edit_history: comment.edit_history,
-      created_at: comment.created_at,
-      updated_at: comment.updated_at,
-      username: comment.user?.username || 'Unknown',
-      profile_picture_url: comment.user?.profile_picture_url || null,
-      is_mod: comment.user?.is_mod || false,
-      is_admin: comment.user?.is_admin || false,
-      role: comment.user?.role,
-      tags: comment.tags,
-      reply_count: comment._count.replies,
-      replies: nestedReplies.map(thread => thread.comment)
-    },
-    thread_stats: {
-      total_comments: totalComments,
-      max_depth: maxThreadDepth,
-      total_upvotes: totalUpvotes,
-      total_downvotes: totalDownvotes
-    }
+  const childrenByParent = new Map<number, typeof threadRows>();
+  for (const row of threadRows) {
+    if (row.parent_comment_id === null) continue;
+    const siblings = childrenByParent.get(row.parent_comment_id) || [];
+    siblings.push(row);
+    childrenByParent.set(row.parent_comment_id, siblings);
+  }
+
+  const stats = {
+    total_comments: 1,
+    max_depth: comment.depth_level,
+    total_upvotes: comment.upvotes,
+    total_downvotes: comment.downvotes
   };
+
+  const pending = [...(childrenByParent.get(comment.id) || [])];
+  while (pending.length > 0) {
+    const row = pending.pop()!;
+    stats.total_comments += 1;
+    stats.max_depth = Math.max(stats.max_depth, row.depth_level);
+    stats.total_upvotes += row.upvotes;
+    stats.total_downvotes += row.downvotes;
+    pending.push(...(childrenByParent.get(row.id) || []));
+  }
+
+  return stats;
 }
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { canViewVotes } from '@/lib/permissions';
+import { authenticateReader } from '@/app/api/auth/verify';
+import { RateLimitError, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { canViewVotes, isShadowBanned } from '@/lib/permissions';
+import { countedVoteWhere, isHiddenFromViewer } from '@/lib/visibility';
 import { VoterListResponse, ApiResponse } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
@@ -19,36 +21,28 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Check if comment exists
+    // Optional auth; anonymous reads are budgeted per IP, verified users per account
+    const { anilistUser, user, rateLimit } = await authenticateReader(request, 'voters', db);
+    const currentUserId = anilistUser ? anilistUser.id : null;
+    const hasPermission = user ? canViewVotes(user) : false;
+
+    // Check if comment exists and is visible to this viewer
     const comment = await db.comment.findUnique({
-      where: { id: commentId }
+      where: { id: parseInt(commentId, 10) },
+      include: {
+        user: {
+          select: { anilist_user_id: true, shadow_banned: true, shadow_ban_expires: true }
+        }
+      }
     });
 
-    if (!comment) {
+    if (!comment || isHiddenFromViewer(comment, currentUserId, hasPermission)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Comment not found'
       }, { status: 404 });
     }
 
-    // Get auth token (optional for read access)
-    const authHeader = request.headers.get('authorization');
-    let currentUserId: number | null = null;
-    let hasPermission = false;
-    
-    if (authHeader) {
-      try {
-        const token = authHeader.replace('Bearer ', '');
-        const anilistUser = await verifyAniListToken(token);
-        const user = await upsertUser(anilistUser, db);
-        currentUserId = anilistUser.id;
-        hasPermission = canViewVotes(user);
-      } catch (error) {
-        // Token verification failed, but allow basic access
-        console.warn('Optional auth failed:', error);
-      }
-    }
-
     // If not authenticated and not a mod/admin, return limited data
     if (!currentUserId && !hasPermission) {
       return NextResponse.json<ApiResponse>({
@@ -75,9 +69,11 @@ export async function GET(request: NextRequest) {
       voteTypeFilter = -1;
     }
 
-    // Build where clause
+    // Build where clause; votes from shadow-banned users are only listed for moderators
+    // and for the voter themself
     const whereClause: any = {
-      comment_id: commentId
+      comment_id: commentId,
+      ...(hasPermission ? {} : { OR: [countedVoteWhere(), { user_id: currentUserId }] })
     };
     
     if (voteTypeFilter !== undefined) {
@@ -95,7 +91,9 @@ export async function GET(request: NextRequest) {
             profile_picture_url: true,
             is_mod: true,
             is_admin: true,
-            role: true
+            role: true,
+            shadow_banned: true,
+            shadow_ban_expires: true
           }
         }
       },
@@ -104,13 +102,13 @@ export async function GET(request: NextRequest) {
       take: limit
     });
 
-    // Get total counts
+    // Get public total counts
     const upvoteCount = await db.vote.count({
-      where: { comment_id: commentId, vote_type: 1 }
+      where: { comment_id: commentId, vote_type: 1, ...countedVoteWhere() }
     });
 
     const downvoteCount = await db.vote.count({
-      where: { comment_id: commentId, vote_type: -1 }
+      where: { comment_id: commentId, vote_type: -1, ...countedVoteWhere() }
     });
 
     // Format voter information
@@ -120,7 +118,8 @@ export async function GET(request: NextRequest) {
       profile_picture_url: voter.user.profile_picture_url,
       role: voter.user.role,
       vote_type: voter.vote_type as -1 | 0 | 1,
-      created_at: voter.created_at
+      created_at: voter.created_at,
+      ...(hasPermission && isShadowBanned(voter.user) ? { shadow_banned: true } : {})
     }));
 
     // Separate upvoters and downvoters
@@ -141,7 +140,7 @@ export async function GET(request: NextRequest) {
       total_votes: upvoteCount + downvoteCount
     };
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: {
         ...response,
@@ -152,9 +151,13 @@ export async function GET(request: NextRequest) {
           hasMore: offset + voters.length < totalCount
         }
       }
-    });
+    }), rateLimit);
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('GET voters error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
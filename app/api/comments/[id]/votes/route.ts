@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { RateLimitError, checkReadRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
 import { canViewVotes } from '@/lib/permissions';
 import { VoteListResponse, ApiResponse } from '@/lib/types';
 
@@ -23,10 +24,9 @@ export async function GET(
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
+    const { user } = await authenticateToken(token, db);
 
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const rateLimit = await checkReadRateLimit(request, 'votes', user.anilist_user_id);
 
     // Check if user can view votes
     if (!canViewVotes(user)) {
@@ -109,12 +109,16 @@ export async function GET(
       }))
     };
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: response
-    });
+    }), rateLimit);
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('GET votes error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
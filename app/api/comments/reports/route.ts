@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
 import { canReportComment } from '@/lib/permissions';
+import { REPORT_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { REPORT_CATEGORIES, UNDECIDED_REPORT_STATUSES, addReportToQueue, getMaxOpenReports, getReporterAccuracy, parseReportCategory } from '@/lib/moderation-queue';
 import { CreateReportRequest, ApiResponse } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
@@ -16,13 +20,13 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const { anilistUser, user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
     
     // Check rate limit
-    await checkRateLimit(anilistUser.id, 'report', db);
+    const rateLimit = await checkRateLimit(user, 'report');
 
     // Check if user can report comments
     if (!canReportComment(user)) {
@@ -33,17 +37,35 @@ export async function POST(request: NextRequest) {
     }
 
     const body: CreateReportRequest = await request.json();
-    const { comment_id, reason, description } = body;
+    const { comment_id, description } = body;
+    // Older clients send the category as the reason
+    const category = parseReportCategory(body.category ?? body.reason);
+    const reason = body.reason?.trim() || null;
 
     // Validate input
-    if (!comment_id || !reason || reason.trim().length === 0) {
+    if (!comment_id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'comment_id is required'
+      }, { status: 400 });
+    }
+
+    if (!category) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Invalid category. Must be one of: ${REPORT_CATEGORIES.map(c => c.toLowerCase().replace('_', '-')).join(', ')}`
+      }, { status: 400 });
+    }
+
+    const hasDetails = !!description?.trim() || (!!reason && !parseReportCategory(reason));
+    if (category === 'OTHER' && !hasDetails) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'comment_id and reason are required'
+        error: 'A description is required for reports in the other category'
       }, { status: 400 });
     }
 
-    if (reason.length > 100) {
+    if (reason && reason.length > 100) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Reason too long (max 100 characters)'
@@ -104,13 +126,33 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Cap how many undecided reports one user can have in the queue at a time
+    const openReports = await db.report.count({
+      where: {
+        reporter_user_id: anilistUser.id,
+        status: { in: UNDECIDED_REPORT_STATUSES }
+      }
+    });
+
+    if (openReports >= getMaxOpenReports()) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `You have ${openReports} reports awaiting review. Please wait for them to be reviewed before reporting more.`
+      }, { status: 429 });
+    }
+
+    // The reporter's track record decides how much this report counts in the queue
+    const { weight } = await getReporterAccuracy(user);
+
     // Create report
     const newReport = await db.report.create({
       data: {
         comment_id: comment_id,
         reporter_user_id: anilistUser.id,
-        reason: reason.trim(),
-        description: description?.trim() || null
+        category,
+        reason: reason || category.toLowerCase(),
+        description: description?.trim() || null,
+        weight
       },
       include: {
         reporter: {
@@ -122,11 +164,15 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // Aggregate into the moderation queue, collapsing the comment past the threshold
+    await addReportToQueue(request, newReport);
+
     // Format response
     const formattedReport = {
       id: newReport.id,
       comment_id: newReport.comment_id,
       reporter_user_id: newReport.reporter_user_id,
+      category: newReport.category,
       reason: newReport.reason,
       description: newReport.description,
       status: newReport.status,
@@ -135,23 +181,22 @@ export async function POST(request: NextRequest) {
       reporter: newReport.reporter
     };
 
-    return NextResponse.json<ApiResponse>({
+    await enqueueWebhookEvent('comment.reported', { report: formattedReport });
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: formattedReport,
       message: 'Comment reported successfully'
-    }, { status: 201 });
+    }, { status: 201 }), rateLimit);
 
   } catch (error) {
     console.error('POST report error:', error);
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
     
     if (error instanceof Error) {
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: error.message
-        }, { status: 429 });
-      }
-      
       if (error.message.includes('Invalid') || error.message.includes('required')) {
         return NextResponse.json<ApiResponse>({
           success: false,
@@ -178,10 +223,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const { user } = await authenticateToken(token, db);
 
     // Check if user can view reports
     const { canViewReports } = await import('@/lib/permissions');
@@ -194,21 +236,41 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status') || 'PENDING';
+    const categoryFilter = searchParams.get('category');
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
+    const cursor = searchParams.get('cursor');
 
-    const offset = (page - 1) * limit;
+    const cursorValues = cursor ? decodeCursor(cursor, 'reports', REPORT_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const offset = cursorValues ? 0 : (page - 1) * limit;
 
     // Build where clause
     const whereClause: any = {};
     if (status !== 'ALL') {
       whereClause.status = status;
     }
+    if (categoryFilter) {
+      const category = parseReportCategory(categoryFilter);
+      if (!category) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Invalid category'
+        }, { status: 400 });
+      }
+      whereClause.category = category;
+    }
 
     // Fetch reports
-    const reports = await db.report.findMany({
-      where: whereClause,
-      orderBy: { created_at: 'desc' },
+    const rows = await db.report.findMany({
+      where: applyCursor(whereClause, REPORT_SORT, cursorValues),
+      orderBy: buildOrderBy(REPORT_SORT),
       include: {
         reporter: {
           select: {
@@ -230,21 +292,25 @@ export async function GET(request: NextRequest) {
         }
       },
       skip: offset,
-      take: limit
+      take: limit + 1
     });
 
+    const { items: reports, hasMore, nextCursor } = toCursorPage(rows, limit, 'reports', REPORT_SORT);
+
     // Get total count
     const total = await db.report.count({
       where: whereClause
     });
 
     // Format response
-    const formattedReports = reports.map(report => ({
+    const formattedReports = reports.map((report: any) => ({
       id: report.id,
       comment_id: report.comment_id,
       reporter_user_id: report.reporter_user_id,
+      category: report.category,
       reason: report.reason,
       description: report.description,
+      weight: report.weight,
       status: report.status,
       reviewed_by: report.reviewed_by,
       review_note: report.review_note,
@@ -267,7 +333,8 @@ export async function GET(request: NextRequest) {
       success: true,
       data: {
         reports: formattedReports,
-        hasMore: offset + reports.length < total,
+        hasMore,
+        next_cursor: nextCursor,
         total,
         page,
         limit
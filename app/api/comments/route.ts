@@ -1,7 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { authenticateReader, authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { computeCommentScores } from '@/lib/scoring';
+import { MAX_UNIT_NUMBER, buildUnitFilter, parseUnitNumber } from '@/lib/units';
+import { MAX_MENTIONS_PER_COMMENT, notifyMentionedUsers, resolveMentions, syncCommentMentions } from '@/lib/mentions';
+import { isShadowBanned } from '@/lib/permissions';
+import { notifyReply } from '@/lib/notifications';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { AutomodRejectedError, AutomodSubject, applyAutomodTags, automodRejectedResponse, evaluateAutomod, recordAutomodActions } from '@/lib/automod';
+import { PostingRestrictedError, enforcePostingRestrictions, postingRestrictedResponse } from '@/lib/locks';
+import { attachReplyTrees, buildCommentInclude, formatComment, parseReplyLimits } from '@/lib/comment-tree';
+import { buildVisibilityWhere, isModeratorViewer } from '@/lib/visibility';
+import { applyCursor, buildOrderBy, decodeCursor, resolveCommentSort, toCursorPage } from '@/lib/pagination';
 import { CreateCommentRequest, Comment, ApiResponse, NestedCommentsResponse } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
@@ -12,9 +25,11 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
     const sortBy = searchParams.get('sort') || 'newest';
+    const cursor = searchParams.get('cursor');
     const parentId = searchParams.get('parent_id');
     const maxDepth = parseInt(searchParams.get('max_depth') || '10');
     const includeDeleted = searchParams.get('include_deleted') === 'true';
+    const unitFilter = buildUnitFilter(searchParams.get('unit'));
 
     if (!mediaId) {
       return NextResponse.json<ApiResponse>({
@@ -31,139 +46,97 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Get auth token (optional for read access)
-    const authHeader = request.headers.get('authorization');
-    let userId: number | null = null;
-    
-    if (authHeader) {
-      try {
-        const token = authHeader.replace('Bearer ', '');
-        const anilistUser = await verifyAniListToken(token);
-        userId = anilistUser.id;
-      } catch (error) {
-        // Token verification failed, but allow read access
-        console.warn('Optional auth failed:', error);
-      }
+    if (!unitFilter) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid unit. Use general, all or an episode/chapter number'
+      }, { status: 400 });
     }
 
-    const offset = (page - 1) * limit;
+    // Optional auth; anonymous reads are budgeted per IP, verified users per account
+    const { anilistUser, rateLimit } = await authenticateReader(request, 'comments', db);
+    const userId = anilistUser ? anilistUser.id : null;
+    const isModerator = await isModeratorViewer(userId);
+
+    // Cursor pagination takes precedence; page/limit remains for older clients
+    const { sortKey, fields: sortFields } = resolveCommentSort(sortBy);
+    const cursorValues = cursor ? decodeCursor(cursor, sortKey, sortFields) : null;
+
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const offset = cursorValues ? 0 : (page - 1) * limit;
 
     // Build where clause
     const whereClause: any = {
       media_id: mediaIdNum,
       media_type: mediaType,
-      parent_comment_id: parentId || null,
-      depth_level: { lte: maxDepth }
+      parent_comment_id: parentId ? parseInt(parentId) : null,
+      depth_level: { lte: maxDepth },
+      // Replies inherit their parent's section, so the unit only scopes top-level listings
+      ...(parentId ? {} : unitFilter),
+      // Shadow-banned authors are only visible to themselves and moderators
+      ...buildVisibilityWhere(userId, isModerator)
     };
 
     if (!includeDeleted) {
       whereClause.is_deleted = false;
     }
 
-    // Build order by
-    let orderBy: any = { created_at: 'desc' };
-    if (sortBy === 'top') {
-      orderBy = [
-        { upvotes: 'desc' },
-        { created_at: 'desc' }
-      ];
-    } else if (sortBy === 'oldest') {
-      orderBy = { created_at: 'asc' };
-    }
-
     // Fetch comments with nested structure
-    const comments = await db.comment.findMany({
-      where: whereClause,
-      orderBy,
-      include: {
-        user: {
-          select: {
-            id: true,
-            anilist_user_id: true,
-            username: true,
-            profile_picture_url: true,
-            is_mod: true,
-            is_admin: true,
-            role: true
-          }
-        },
-        votes: userId ? {
-          where: { user_id: userId }
-        } : false,
-        tags: true,
-        _count: {
-          select: {
-            replies: {
-              where: includeDeleted ? {} : { is_deleted: false }
-            }
-          }
-        }
-      },
+    const rows = await db.comment.findMany({
+      where: applyCursor(whereClause, sortFields, cursorValues),
+      orderBy: buildOrderBy(sortFields),
+      include: buildCommentInclude(userId, includeDeleted, isModerator),
       skip: offset,
-      take: limit
+      take: limit + 1
     });
 
+    const { items: comments, hasMore, nextCursor } = toCursorPage(rows, limit, sortKey, sortFields);
+
     // Get total count
     const total = await db.comment.count({
       where: whereClause
     });
 
-    // Format response with nested structure
-    const formattedComments = await Promise.all(comments.map(async (comment) => {
-      // Get nested replies recursively
-      const nestedReplies = await getNestedReplies(comment.id, userId, maxDepth, 1, includeDeleted);
-      
-      return {
-        id: comment.id,
-        media_id: comment.media_id,
-        media_type: comment.media_type,
-        parent_comment_id: comment.parent_comment_id,
-        root_comment_id: comment.root_comment_id,
-        depth_level: comment.depth_level,
-        content: comment.is_deleted ? '[deleted]' : comment.content,
-        anilist_user_id: comment.anilist_user_id,
-        upvotes: comment.upvotes,
-        downvotes: comment.downvotes,
-        total_votes: comment.total_votes,
-        user_vote_type: (comment.votes && comment.votes.length > 0) ? comment.votes[0].vote_type : null,
-        is_deleted: comment.is_deleted,
-        deleted_by: comment.deleted_by,
-        delete_reason: comment.delete_reason,
-        is_edited: comment.is_edited,
-        is_pinned: comment.is_pinned,
-        pin_expires: comment.pin_expires,
-        edit_history: comment.edit_history,
-        created_at: comment.created_at,
-        updated_at: comment.updated_at,
-        username: comment.user?.username || 'Unknown',
-        profile_picture_url: comment.user?.profile_picture_url || null,
-        is_mod: comment.user?.is_mod || false,
-        is_admin: comment.user?.is_admin || false,
-        role: comment.user?.role,
-        tags: comment.tags,
-        reply_count: comment._count.replies,
-        replies: nestedReplies
-      };
-    }));
+    const formattedComments = comments.map((comment: any) => formatComment(comment, [], isModerator));
+
+    // Load the capped reply trees for the whole page at once and assemble them in memory
+    await attachReplyTrees(formattedComments, {
+      userId,
+      isModerator,
+      maxDepth,
+      includeDeleted,
+      ...parseReplyLimits(searchParams)
+    });
 
     // Calculate maximum depth in response
     const responseMaxDepth = Math.max(...formattedComments.map(c => 
       Math.max(c.depth_level, ...getAllDepths(c.replies || []))
     ), 0);
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: {
         comments: formattedComments,
-        hasMore: offset + comments.length < total,
+        hasMore,
+        next_cursor: nextCursor,
         total,
         page,
         limit,
         max_depth: responseMaxDepth
       }
-    });
+    }), rateLimit);
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('GET comments error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
@@ -172,85 +145,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getNestedReplies(
-  parentId: string, 
-  userId: number | null, 
-  maxDepth: number, 
-  currentDepth: number,
-  includeDeleted: boolean
-): Promise<Comment[]> {
-  if (currentDepth >= maxDepth) return [];
-
-  const replies = await db.comment.findMany({
-    where: {
-      parent_comment_id: parentId,
-      depth_level: currentDepth,
-      ...(includeDeleted ? {} : { is_deleted: false })
-    },
-    orderBy: { created_at: 'asc' },
-    include: {
-      user: {
-        select: {
-          id: true,
-          anilist_user_id: true,
-          username: true,
-          profile_picture_url: true,
-          is_mod: true,
-          is_admin: true,
-          role: true
-        }
-      },
-      votes: userId ? {
-        where: { user_id: userId }
-      } : false,
-      tags: true,
-      _count: {
-        select: {
-          replies: {
-            where: includeDeleted ? {} : { is_deleted: false }
-          }
-        }
-      }
-    }
-  });
-
-  return await Promise.all(replies.map(async (reply) => {
-    const nestedReplies = await getNestedReplies(reply.id, userId, maxDepth, currentDepth + 1, includeDeleted);
-    
-    return {
-      id: reply.id,
-      media_id: reply.media_id,
-      media_type: reply.media_type,
-      parent_comment_id: reply.parent_comment_id,
-      root_comment_id: reply.root_comment_id,
-      depth_level: reply.depth_level,
-      content: reply.is_deleted ? '[deleted]' : reply.content,
-      anilist_user_id: reply.anilist_user_id,
-      upvotes: reply.upvotes,
-      downvotes: reply.downvotes,
-      total_votes: reply.total_votes,
-      user_vote_type: (reply.votes && reply.votes.length > 0) ? reply.votes[0].vote_type : null,
-      is_deleted: reply.is_deleted,
-      deleted_by: reply.deleted_by,
-      delete_reason: reply.delete_reason,
-      is_edited: reply.is_edited,
-      is_pinned: reply.is_pinned,
-      pin_expires: reply.pin_expires,
-      edit_history: reply.edit_history,
-      created_at: reply.created_at,
-      updated_at: reply.updated_at,
-      username: reply.user?.username || 'Unknown',
-      profile_picture_url: reply.user?.profile_picture_url || null,
-      is_mod: reply.user?.is_mod || false,
-      is_admin: reply.user?.is_admin || false,
-      role: reply.user?.role,
-      tags: reply.tags,
-      reply_count: reply._count.replies,
-      replies: nestedReplies
-    };
-  }));
-}
-
 function getAllDepths(comments: Comment[]): number[] {
   const depths: number[] = [];
   for (const comment of comments) {
@@ -273,16 +167,16 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
+    const { anilistUser, user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
     
     // Check rate limit
-    await checkRateLimit(anilistUser.id, 'comment', db);
-
-    // Upsert user
-    const user = await upsertUser(anilistUser, db);
+    const rateLimit = await checkRateLimit(user, 'comment');
 
     const body: CreateCommentRequest = await request.json();
-    const { media_id, media_type, content, parent_comment_id } = body;
+    const { media_id, media_type, content, parent_comment_id, unit_number, mentions: mentionIds } = body;
 
     // Validate input
     if (!media_id || !content || content.trim().length === 0) {
@@ -299,8 +193,33 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    let rootCommentId: string | null = null;
+    let unitNumber: number | null = null;
+    if (unit_number !== undefined && unit_number !== null) {
+      unitNumber = parseUnitNumber(unit_number);
+      if (unitNumber === null) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Invalid unit_number (must be a number between 0 and ${MAX_UNIT_NUMBER})`
+        }, { status: 400 });
+      }
+    }
+
+    // Resolve @username mentions (plus any mention IDs sent by the client)
+    const mentions = await resolveMentions(content, Array.isArray(mentionIds) ? mentionIds : []);
+    if (mentions.length > MAX_MENTIONS_PER_COMMENT) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Too many mentions (max ${MAX_MENTIONS_PER_COMMENT} per comment)`
+      }, { status: 400 });
+    }
+
+    if (mentions.length > 0) {
+      await checkRateLimit(user, 'mention');
+    }
+
+    let rootCommentId: number | null = null;
     let depthLevel = 0;
+    let parentAuthorId: number | null = null;
 
     // Handle parent comment logic for nested replies
     if (parent_comment_id) {
@@ -346,20 +265,56 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
+      // Replies always live in their parent's episode/chapter section
+      if (unit_number !== undefined && unit_number !== null && unitNumber !== parentComment.unit_number) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Parent comment unit_number mismatch'
+        }, { status: 400 });
+      }
+      unitNumber = parentComment.unit_number;
+
       rootCommentId = parentComment.root_comment_id || parentComment.id;
       depthLevel = parentComment.depth_level + 1;
+      parentAuthorId = parentComment.anilist_user_id;
     }
 
-    // Create comment with nested support
+    // Thread and media locks, then slow mode
+    await enforcePostingRestrictions(user, {
+      media_id,
+      media_type: media_type || 'ANIME',
+      root_comment_id: rootCommentId
+    });
+
+    // Automoderation runs last, so rejected content never reaches the database
+    const automodSubject: AutomodSubject = {
+      content: content.trim(),
+      media_id,
+      media_type: media_type || 'ANIME',
+      is_edit: false,
+      author: user
+    };
+    const verdict = await evaluateAutomod(automodSubject);
+    if (verdict.rejection) {
+      await recordAutomodActions(request, verdict, automodSubject, null);
+      throw new AutomodRejectedError(verdict.rejection);
+    }
+
+    // Create comment with nested support; hot_score depends on the creation time
+    const createdAt = new Date();
     const newComment = await db.comment.create({
       data: {
+        created_at: createdAt,
+        ...computeCommentScores(0, 0, createdAt),
         media_id: media_id,
         media_type: media_type || 'ANIME',
+        unit_number: unitNumber,
         content: content.trim(),
         anilist_user_id: user.anilist_user_id,
         parent_comment_id: parent_comment_id || null,
         root_comment_id: rootCommentId,
-        depth_level: depthLevel
+        depth_level: depthLevel,
+        moderation_status: verdict.moderation_status
       },
       include: {
         user: {
@@ -376,11 +331,27 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    const tags = await applyAutomodTags(newComment.id, verdict);
+    await recordAutomodActions(request, verdict, automodSubject, newComment.id);
+
+    // Store mentions; content from shadow-banned users or held/hidden by automoderation is
+    // not public, so nobody is notified
+    const isPublic = !isShadowBanned(user) && newComment.moderation_status === 'VISIBLE';
+    await syncCommentMentions(newComment.id, mentions);
+    if (isPublic) {
+      await notifyMentionedUsers(newComment, user.username, mentions.map(mention => mention.user_id));
+
+      if (parent_comment_id && parentAuthorId !== null) {
+        await notifyReply({ id: parent_comment_id, anilist_user_id: parentAuthorId }, newComment, user.username);
+      }
+    }
+
     // Format response
     const formattedComment = {
       id: newComment.id,
       media_id: newComment.media_id,
       media_type: newComment.media_type,
+      unit_number: newComment.unit_number,
       parent_comment_id: newComment.parent_comment_id,
       root_comment_id: newComment.root_comment_id,
       depth_level: newComment.depth_level,
@@ -401,28 +372,44 @@ export async function POST(request: NextRequest) {
       is_mod: newComment.user.is_mod,
       is_admin: newComment.user.is_admin,
       role: newComment.user.role,
-      tags: [],
+      tags,
+      mentions,
       reply_count: 0,
-      replies: []
+      replies: [],
+      // The author learns about a hold, never about a shadow-hide
+      ...(newComment.moderation_status === 'HELD' ? { moderation_status: newComment.moderation_status } : {})
     };
 
-    return NextResponse.json<ApiResponse>({
+    // Comments that are not public are never broadcast
+    if (isPublic) {
+      await publishEvent('new_comment', { media_id: newComment.media_id, media_type: newComment.media_type }, formattedComment);
+      await enqueueWebhookEvent('comment.created', { comment: formattedComment });
+    }
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: formattedComment,
-      message: 'Comment created successfully'
-    }, { status: 201 });
+      message: newComment.moderation_status === 'HELD'
+        ? 'Comment submitted and awaiting moderator review'
+        : 'Comment created successfully'
+    }, { status: 201 }), rateLimit);
 
   } catch (error) {
     console.error('POST comments error:', error);
+
+    if (error instanceof AutomodRejectedError) {
+      return automodRejectedResponse(error);
+    }
+
+    if (error instanceof PostingRestrictedError) {
+      return postingRestrictedResponse(error);
+    }
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
     
     if (error instanceof Error) {
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: error.message
-        }, { status: 429 });
-      }
-      
       if (error.message.includes('Invalid') || error.message.includes('required')) {
         return NextResponse.json<ApiResponse>({
           success: false,
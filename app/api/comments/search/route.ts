@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateReader } from '@/app/api/auth/verify';
+import { RateLimitError, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { canViewReports } from '@/lib/permissions';
+import { buildCommentInclude, formatComment } from '@/lib/comment-tree';
+import { decodeCursor, toCursorPage } from '@/lib/pagination';
+import { SEARCH_SORT, SEARCH_SORT_KEY, searchComments } from '@/lib/search';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/comments/search - Full-text search over comment content
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const mediaId = searchParams.get('media_id');
+    const mediaType = searchParams.get('media_type');
+    const authorId = searchParams.get('author_id');
+    const authorName = searchParams.get('author');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const includeDeleted = searchParams.get('include_deleted') === 'true';
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50), 1);
+    const cursor = searchParams.get('cursor');
+
+    if (query.length < 2 || query.length > 200) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'q is required (2-200 characters)'
+      }, { status: 400 });
+    }
+
+    if (mediaId && isNaN(parseInt(mediaId))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid media_id'
+      }, { status: 400 });
+    }
+
+    if (mediaType && mediaType !== 'ANIME' && mediaType !== 'MANGA') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid media_type. Must be ANIME or MANGA'
+      }, { status: 400 });
+    }
+
+    if (authorId && isNaN(parseInt(authorId))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid author_id'
+      }, { status: 400 });
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid from/to date'
+      }, { status: 400 });
+    }
+
+    const cursorValues = cursor ? decodeCursor(cursor, SEARCH_SORT_KEY, SEARCH_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    // Optional auth (required for include_deleted); anonymous reads are budgeted per IP,
+    // verified users per account
+    const { anilistUser, user, rateLimit } = await authenticateReader(request, 'search', db);
+    const userId = anilistUser ? anilistUser.id : null;
+    const isModerator = user ? canViewReports(user) : false;
+
+    if (includeDeleted && !isModerator) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Insufficient permissions to search deleted comments'
+      }, { status: 403 });
+    }
+
+    const hits = await searchComments({
+      query,
+      mediaId: mediaId ? parseInt(mediaId) : undefined,
+      mediaType: mediaType || undefined,
+      authorId: authorId ? parseInt(authorId) : undefined,
+      authorName: authorName || undefined,
+      from: fromDate,
+      to: toDate,
+      includeDeleted,
+      viewerId: userId,
+      isModerator,
+      cursor: cursorValues,
+      limit
+    });
+
+    const { items, hasMore, nextCursor } = toCursorPage(hits, limit, SEARCH_SORT_KEY, SEARCH_SORT);
+
+    // Load the matching comments with the same shape as the listing, keeping rank order
+    const comments = await db.comment.findMany({
+      where: { id: { in: items.map(hit => hit.id) } },
+      include: buildCommentInclude(userId, includeDeleted, isModerator)
+    });
+    const commentsById = new Map<number, any>();
+    comments.forEach((comment: any) => commentsById.set(comment.id, comment));
+
+    const results = items
+      .filter(hit => commentsById.has(hit.id))
+      .map(hit => ({
+        comment: formatComment(commentsById.get(hit.id), [], isModerator),
+        rank: hit.rank,
+        snippet: hit.snippet
+      }));
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        query,
+        results,
+        hasMore,
+        next_cursor: nextCursor
+      }
+    }), rateLimit);
+
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    console.error('Search comments error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
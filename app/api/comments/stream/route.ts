@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CommentEventMessage,
+  MAX_REPLAYED_EVENTS,
+  getEventsSince,
+  matchesScope,
+  subscribeToEvents
+} from '@/lib/events';
+import { RateLimitError, checkReadRateLimit, rateLimitHeaders, rateLimitedResponse } from '@/lib/rate-limit';
+import { ApiResponse, RateLimitResult } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 5000;
+
+// GET /api/comments/stream?media_id=...&media_type=... - Server-Sent Events for a media page.
+// Reconnecting clients send Last-Event-ID (or last_event_id, since EventSource cannot set
+// headers on its first request) and receive the events they missed from the event log.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const mediaId = searchParams.get('media_id');
+  const mediaType = searchParams.get('media_type') || 'ANIME';
+  const lastEventIdParam = request.headers.get('last-event-id') || searchParams.get('last_event_id');
+
+  if (!mediaId || isNaN(parseInt(mediaId))) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'A valid media_id is required'
+    }, { status: 400 });
+  }
+
+  if (mediaType !== 'ANIME' && mediaType !== 'MANGA') {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Invalid media_type. Must be ANIME or MANGA'
+    }, { status: 400 });
+  }
+
+  // Every (re)connection is budgeted, since each one may replay the event log
+  let rateLimit: RateLimitResult;
+  try {
+    rateLimit = await checkReadRateLimit(request, 'stream');
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+    throw error;
+  }
+
+  const lastEventId = lastEventIdParam ? parseInt(lastEventIdParam) : NaN;
+  const scope = { media_id: parseInt(mediaId), media_type: mediaType };
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      let lastSentId = isNaN(lastEventId) ? 0 : lastEventId;
+      let replaying = true;
+      const pending: CommentEventMessage[] = [];
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          cleanup();
+        }
+      };
+
+      // Ids only grow, so anything at or below the last sent id is a replay duplicate
+      const sendEvent = (event: CommentEventMessage) => {
+        if (event.id <= lastSentId) return;
+        lastSentId = event.id;
+        send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // Subscribe before replaying so nothing published meanwhile is lost
+      const unsubscribe = subscribeToEvents(event => {
+        if (!matchesScope(event, scope)) return;
+        if (replaying) {
+          pending.push(event);
+        } else {
+          sendEvent(event);
+        }
+      });
+
+      const heartbeat = setInterval(() => send(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch (error) {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      try {
+        if (!isNaN(lastEventId)) {
+          const missed = await getEventsSince(lastEventId, scope);
+          missed.forEach(sendEvent);
+
+          // Too far behind to replay everything; the client should reload the listing
+          if (missed.length === MAX_REPLAYED_EVENTS) {
+            send(`event: resync\ndata: {}\n\n`);
+          }
+        }
+      } catch (error) {
+        console.error('Event replay error:', error);
+      }
+
+      replaying = false;
+      pending.forEach(sendEvent);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      ...rateLimitHeaders(rateLimit)
+    }
+  });
+}
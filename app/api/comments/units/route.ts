@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { RateLimitError, checkReadRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getUnitLabel } from '@/lib/units';
+import { ApiResponse, MediaType, UnitCountsResponse } from '@/lib/types';
+
+// GET /api/comments/units - Comment counts per episode/chapter for a media
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkReadRateLimit(request, 'units');
+
+    const { searchParams } = new URL(request.url);
+    const mediaId = searchParams.get('media_id');
+    const mediaType = (searchParams.get('media_type') || 'ANIME') as MediaType;
+
+    if (!mediaId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'media_id is required'
+      }, { status: 400 });
+    }
+
+    const mediaIdNum = parseInt(mediaId);
+    if (isNaN(mediaIdNum)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid media_id'
+      }, { status: 400 });
+    }
+
+    if (mediaType !== 'ANIME' && mediaType !== 'MANGA') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid media_type. Must be ANIME or MANGA'
+      }, { status: 400 });
+    }
+
+    // Counts include replies, which always share their parent's unit
+    const groups = await db.comment.groupBy({
+      by: ['unit_number'],
+      where: {
+        media_id: mediaIdNum,
+        media_type: mediaType,
+        is_deleted: false
+      },
+      _count: {
+        _all: true
+      }
+    });
+
+    const units = groups
+      .filter(group => group.unit_number !== null)
+      .map(group => ({
+        unit_number: group.unit_number,
+        comment_count: group._count._all
+      }))
+      .sort((a, b) => (a.unit_number as number) - (b.unit_number as number));
+
+    const general = groups.find(group => group.unit_number === null);
+
+    const response: UnitCountsResponse = {
+      media_id: mediaIdNum,
+      media_type: mediaType,
+      unit_label: getUnitLabel(mediaType),
+      general_count: general ? general._count._all : 0,
+      units
+    };
+
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
+      success: true,
+      data: response
+    }), rateLimit);
+
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    console.error('GET unit counts error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
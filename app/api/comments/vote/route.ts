@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { authenticateReader, authenticateToken } from '@/app/api/auth/verify';
+import { rejectBannedUser } from '@/lib/bans';
+import { RateLimitError, checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { computeCommentScores } from '@/lib/scoring';
+import { canViewReports, isShadowBanned } from '@/lib/permissions';
+import { countedVoteWhere, isHiddenFromViewer, isModeratorViewer } from '@/lib/visibility';
+import { notifyVoteMilestones } from '@/lib/notifications';
+import { publishEvent } from '@/lib/events';
 import { VoteRequest, ApiResponse, VoterListResponse } from '@/lib/types';
 import { logUserAction } from '@/lib/audit';
 
@@ -16,13 +22,13 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const { anilistUser, user } = await authenticateToken(token, db);
+
+    const banned = await rejectBannedUser(user);
+    if (banned) return banned;
     
     // Check rate limit
-    await checkRateLimit(anilistUser.id, 'vote', db);
+    const rateLimit = await checkRateLimit(user, 'vote');
 
     const body: VoteRequest = await request.json();
     const { comment_id, vote_type } = body;
@@ -51,13 +57,15 @@ export async function POST(request: NextRequest) {
             anilist_user_id: true,
             is_mod: true,
             is_admin: true,
-            role: true
+            role: true,
+            shadow_banned: true,
+            shadow_ban_expires: true
           }
         }
       }
     });
 
-    if (!comment) {
+    if (!comment || isHiddenFromViewer(comment, anilistUser.id, canViewReports(user))) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Comment not found'
@@ -125,10 +133,10 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Update comment vote counts with optimized query
+    // Update comment vote counts with optimized query; shadow-banned voters are not counted
     const voteCounts = await db.vote.groupBy({
       by: ['vote_type'],
-      where: { comment_id: comment_id },
+      where: { comment_id: comment_id, ...countedVoteWhere() },
       _count: {
         vote_type: true
       }
@@ -138,16 +146,29 @@ export async function POST(request: NextRequest) {
     const downvotes = voteCounts.find(v => v.vote_type === -1)?._count.vote_type || 0;
     const totalVotes = upvotes + downvotes;
 
-    // Update comment with new vote counts
+    // Update comment with new vote counts and the ranking scores derived from them
     await db.comment.update({
       where: { id: comment_id },
       data: {
         upvotes,
         downvotes,
-        total_votes: totalVotes
+        total_votes: totalVotes,
+        ...computeCommentScores(upvotes, downvotes, comment.created_at)
       }
     });
 
+    await notifyVoteMilestones(comment, comment.upvotes, upvotes);
+
+    // Public totals do not change for shadow-banned voters, so there is nothing to broadcast
+    if (!isShadowBanned(user)) {
+      await publishEvent('vote_update', { media_id: comment.media_id, media_type: comment.media_type }, {
+        comment_id,
+        upvotes,
+        downvotes,
+        total_votes: totalVotes
+      });
+    }
+
     // Log vote action
     await logUserAction(request, anilistUser.id, 'VOTE', 'comment', String(comment_id), {
       vote_type: newVoteType,
@@ -156,7 +177,9 @@ export async function POST(request: NextRequest) {
       total_votes_after: totalVotes
     });
 
-    return NextResponse.json<ApiResponse>({
+    // Public totals, as every GET reports them; a shadow-banned voter still sees their own
+    // vote through user_vote_type
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: {
         vote_type: newVoteType || 0,
@@ -168,19 +191,16 @@ export async function POST(request: NextRequest) {
       message: newVoteType 
         ? `Vote ${newVoteType === 1 ? 'up' : 'down'} recorded successfully` 
         : 'Vote removed successfully'
-    });
+    }), rateLimit);
 
   } catch (error) {
     console.error('POST vote error:', error);
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
     
     if (error instanceof Error) {
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json<ApiResponse>({
-          success: false,
-          error: error.message
-        }, { status: 429 });
-      }
-      
       if (error.message.includes('Invalid') || error.message.includes('required')) {
         return NextResponse.json<ApiResponse>({
           success: false,
@@ -208,24 +228,13 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Get auth token (optional for read access)
-    const authHeader = request.headers.get('authorization');
-    let currentUserId: number | null = null;
-    
-    if (authHeader) {
-      try {
-        const token = authHeader.replace('Bearer ', '');
-        const anilistUser = await verifyAniListToken(token);
-        currentUserId = anilistUser.id;
-      } catch (error) {
-        // Token verification failed, but allow read access
-        console.warn('Optional auth failed:', error);
-      }
-    }
+    // Optional auth; anonymous reads are budgeted per IP, verified users per account
+    const { anilistUser, rateLimit } = await authenticateReader(request, 'comment', db);
+    const currentUserId = anilistUser ? anilistUser.id : null;
 
     // Check if comment exists
     const comment = await db.comment.findUnique({
-      where: { id: commentId },
+      where: { id: parseInt(commentId, 10) },
       include: {
         user: {
           select: {
@@ -234,13 +243,15 @@ export async function GET(request: NextRequest) {
             profile_picture_url: true,
             is_mod: true,
             is_admin: true,
-            role: true
+            role: true,
+            shadow_banned: true,
+            shadow_ban_expires: true
           }
         }
       }
     });
 
-    if (!comment) {
+    if (!comment || isHiddenFromViewer(comment, currentUserId, await isModeratorViewer(currentUserId))) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Comment not found'
@@ -261,10 +272,10 @@ export async function GET(request: NextRequest) {
       userVote = userVoteRecord?.vote_type || null;
     }
 
-    // Get vote counts
+    // Get public vote counts (shadow-banned voters excluded)
     const voteCounts = await db.vote.groupBy({
       by: ['vote_type'],
-      where: { comment_id: commentId },
+      where: { comment_id: commentId, ...countedVoteWhere() },
       _count: {
         vote_type: true
       }
@@ -274,7 +285,7 @@ export async function GET(request: NextRequest) {
     const downvotes = voteCounts.find(v => v.vote_type === -1)?._count.vote_type || 0;
     const totalVotes = upvotes + downvotes;
 
-    return NextResponse.json<ApiResponse>({
+    return withRateLimitHeaders(NextResponse.json<ApiResponse>({
       success: true,
       data: {
         comment_id: commentId,
@@ -284,9 +295,13 @@ export async function GET(request: NextRequest) {
         user_vote_type: userVote,
         is_deleted: comment.is_deleted
       }
-    });
+    }), rateLimit);
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
     console.error('GET vote error:', error);
     return NextResponse.json<ApiResponse>({
       success: false,
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectUnscheduledRequest } from '@/lib/cron';
+import { clearLapsedBans } from '@/lib/bans';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/cron/bans - Scheduled cleanup of lapsed bans and shadow bans (see the crons entry in
+// vercel.json). Visibility follows expiry on its own, but cached vote totals only include a
+// formerly shadow-banned user's votes again once the shadow ban is cleared.
+export async function GET(request: NextRequest) {
+  try {
+    const rejected = rejectUnscheduledRequest(request);
+    if (rejected) return rejected;
+
+    const cleared = await clearLapsedBans();
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { cleared },
+      message: `${cleared} lapsed bans cleared`
+    });
+
+  } catch (error) {
+    console.error('Ban cleanup cron error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectUnscheduledRequest } from '@/lib/cron';
+import { processWebhookOutbox } from '@/lib/webhooks';
+import { ApiResponse } from '@/lib/types';
+
+// Stop starting new batches after this long, well inside the function timeout
+const DRAIN_TIME_BUDGET_MS = 45 * 1000;
+
+// GET /api/cron/webhooks - Scheduled outbox drain (see the crons entry in vercel.json), so
+// failed deliveries are retried even when no new events are enqueued
+export async function GET(request: NextRequest) {
+  try {
+    const rejected = rejectUnscheduledRequest(request);
+    if (rejected) return rejected;
+
+    const deadline = Date.now() + DRAIN_TIME_BUDGET_MS;
+    let attempted = 0;
+    let batch;
+    do {
+      batch = await processWebhookOutbox();
+      attempted += batch;
+    } while (batch > 0 && Date.now() < deadline);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { attempted },
+      message: `${attempted} deliveries attempted`
+    });
+
+  } catch (error) {
+    console.error('Webhook cron error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
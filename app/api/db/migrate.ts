@@ -1,5 +1,8 @@
 import { db } from './connection';
 import { PrismaClient } from '@prisma/client';
+import { backfillCommentScores } from '@/lib/scoring';
+import { ensureSearchIndex } from '@/lib/search';
+import { ensureExternalUserIdSequence } from '@/app/api/auth/verify';
 
 export async function runMigrations() {
   try {
@@ -36,12 +39,24 @@ export async function runMigrations() {
     }
     
     try {
-      await prisma.rateLimit.count();
-      console.log('✅ Rate limits table ready');
+      await prisma.rateLimitBucket.count();
+      console.log('✅ Rate limit buckets table ready');
     } catch (error) {
-      console.log('ℹ️ Creating rate limits table...');
+      console.log('ℹ️ Creating rate limit buckets table...');
     }
     
+    // Full-text search index (expression indexes cannot be declared in the Prisma schema)
+    await ensureSearchIndex();
+    console.log('✅ Comment search index ready');
+    
+    // Internal ids for accounts from providers without AniList ids
+    await ensureExternalUserIdSequence(db);
+    console.log('✅ External user id sequence ready');
+    
+    // Populate cached ranking scores for comments created before they existed
+    const scoredComments = await backfillCommentScores();
+    console.log(`✅ Ranking scores backfilled for ${scoredComments} comments`);
+    
     await prisma.$disconnect();
     console.log('✅ Prisma migration completed successfully');
     return true;
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { ApiResponse } from '@/lib/types';
+
+// PATCH /api/notifications/[id] - Mark one notification read (or unread with { read: false })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const body = await request.json().catch(() => ({}));
+    const read = body.read === undefined ? true : body.read;
+
+    if (typeof read !== 'boolean') {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'read must be a boolean'
+      }, { status: 400 });
+    }
+
+    // Scoped to the owner so other users' notifications look like missing ones
+    const result = await db.notification.updateMany({
+      where: { id, user_id: user.anilist_user_id },
+      data: { read }
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notification not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { id, read },
+      message: read ? 'Notification marked as read' : 'Notification marked as unread'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PATCH notification error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/notifications/[id]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const result = await db.notification.deleteMany({
+      where: { id, user_id: user.anilist_user_id }
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notification not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Notification deleted successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('DELETE notification error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
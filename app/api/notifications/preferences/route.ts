@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { NOTIFICATION_TYPES, isNotificationType } from '@/lib/notifications';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/notifications/preferences - Which notification types the user has muted
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        muted_types: user.muted_notification_types,
+        available_types: NOTIFICATION_TYPES
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET notification preferences error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/notifications/preferences - Replace the muted types; muted types are not created at all
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const body = await request.json();
+    const { muted_types } = body;
+
+    if (!Array.isArray(muted_types) || !muted_types.every(isNotificationType)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'muted_types must be an array of reply, vote, mention or moderation'
+      }, { status: 400 });
+    }
+
+    const updatedUser = await db.user.update({
+      where: { anilist_user_id: user.anilist_user_id },
+      data: { muted_notification_types: Array.from(new Set(muted_types)) }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        muted_types: updatedUser.muted_notification_types,
+        available_types: NOTIFICATION_TYPES
+      },
+      message: 'Notification preferences updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('PUT notification preferences error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
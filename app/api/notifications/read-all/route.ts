@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { isNotificationType } from '@/lib/notifications';
+import { ApiResponse } from '@/lib/types';
+
+// POST /api/notifications/read-all - Mark every unread notification read, optionally of one type
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type');
+
+    if (type && !isNotificationType(type)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid type. Use reply, vote, mention or moderation'
+      }, { status: 400 });
+    }
+
+    const result = await db.notification.updateMany({
+      where: {
+        user_id: user.anilist_user_id,
+        read: false,
+        ...(type ? { type } : {})
+      },
+      data: { read: true }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { updated: result.count },
+      message: `${result.count} notifications marked as read`
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('Mark all notifications read error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
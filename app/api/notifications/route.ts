@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError, unauthenticatedResponse } from '@/lib/auth-errors';
+import { isNotificationType } from '@/lib/notifications';
+import { NOTIFICATION_SORT, applyCursor, buildOrderBy, decodeCursor, toCursorPage } from '@/lib/pagination';
+import { ApiResponse } from '@/lib/types';
+
+// GET /api/notifications - The signed-in user's notification inbox, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authorization header required'
+      }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { user } = await authenticateToken(token, db);
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.max(Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50), 1);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const type = searchParams.get('type');
+    const cursor = searchParams.get('cursor');
+
+    if (type && !isNotificationType(type)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid type. Use reply, vote, mention or moderation'
+      }, { status: 400 });
+    }
+
+    const cursorValues = cursor ? decodeCursor(cursor, 'notifications', NOTIFICATION_SORT) : null;
+    if (cursor && !cursorValues) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 });
+    }
+
+    const whereClause: any = { user_id: user.anilist_user_id };
+    if (unreadOnly) whereClause.read = false;
+    if (type) whereClause.type = type;
+
+    const rows = await db.notification.findMany({
+      where: applyCursor(whereClause, NOTIFICATION_SORT, cursorValues),
+      orderBy: buildOrderBy(NOTIFICATION_SORT),
+      take: limit + 1
+    });
+
+    const { items: notifications, hasMore, nextCursor } = toCursorPage(rows, limit, 'notifications', NOTIFICATION_SORT);
+
+    const unreadCount = await db.notification.count({
+      where: { user_id: user.anilist_user_id, read: false }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        notifications,
+        unread_count: unreadCount,
+        hasMore,
+        next_cursor: nextCursor
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return unauthenticatedResponse(error);
+    }
+
+    console.error('GET notifications error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
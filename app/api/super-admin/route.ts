@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/app/api/db/connection';
-import { verifyAniListToken, upsertUser } from '@/app/api/auth/verify';
+import { authenticateToken } from '@/app/api/auth/verify';
 import { isSuperAdmin } from '@/lib/permissions';
+import { revokeUserSessions } from '@/lib/session';
 import { ApiResponse } from '@/lib/types';
 
-// Super Admin only endpoint - Only ASheby (5724017) can access
+// Super Admin only endpoint - Only super admins (see SUPER_ADMIN_IDS) can access
 export async function POST(request: NextRequest) {
   try {
     const authHeader = request.headers.get('authorization');
@@ -16,10 +17,7 @@ export async function POST(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const { anilistUser, user } = await authenticateToken(token, db);
 
     // Verify this is the super admin
     if (!isSuperAdmin(user)) {
@@ -82,6 +80,8 @@ async function handleForceAdmin(request: NextRequest, superAdmin: any) {
     }
   });
 
+  await revokeUserSessions(user_id);
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -124,6 +124,8 @@ async function handleRemoveAdmin(request: NextRequest, superAdmin: any) {
     }
   });
 
+  await revokeUserSessions(user_id);
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -157,6 +159,8 @@ async function handleForceMod(request: NextRequest, superAdmin: any) {
     }
   });
 
+  await revokeUserSessions(user_id);
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -199,6 +203,8 @@ async function handleRemoveMod(request: NextRequest, superAdmin: any) {
     }
   });
 
+  await revokeUserSessions(user_id);
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -244,6 +250,8 @@ async function handleUnbanUser(request: NextRequest, superAdmin: any) {
     }
   });
 
+  await revokeUserSessions(user_id);
+
   return NextResponse.json<ApiResponse>({
     success: true,
     data: {
@@ -306,10 +314,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.replace('Bearer ', '');
-    const anilistUser = await verifyAniListToken(token);
-    
-    // Upsert user to get current permissions
-    const user = await upsertUser(anilistUser, db);
+    const { anilistUser, user } = await authenticateToken(token, db);
 
     // Verify this is the super admin
     if (!isSuperAdmin(user)) {
@@ -0,0 +1,113 @@
+import { AppealStatus } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { CLAIM_TTL_MINUTES, QueueClaimError, isClaimLive } from '@/lib/moderation-queue';
+
+// Users appeal one Ban or Warning at a time. Admins claim an appeal while working it (the
+// claim lapses after the moderation queue's CLAIM_TTL_MINUTES), then accept or reject it.
+// Accepting a ban appeal deactivates that ban and recomputes the user's ban fields from
+// whatever bans are still active; accepting a warning appeal deactivates the warning.
+
+export const APPEAL_STATEMENT_MIN_LENGTH = 20;
+export const APPEAL_STATEMENT_MAX_LENGTH = 2000;
+
+export type AppealDecision = 'ACCEPTED' | 'REJECTED';
+
+// Sets is_banned, ban_reason and ban_expires from the user's remaining active bans
+export async function restoreBanState(userId: number, tx: any = db) {
+  const now = new Date();
+  const activeBans = await tx.ban.findMany({
+    where: {
+      user_id: userId,
+      is_active: true,
+      OR: [{ is_permanent: true }, { expires_at: null }, { expires_at: { gt: now } }]
+    },
+    orderBy: { created_at: 'desc' }
+  });
+
+  if (activeBans.length === 0) {
+    return tx.user.update({
+      where: { anilist_user_id: userId },
+      data: { is_banned: false, ban_reason: null, ban_expires: null }
+    });
+  }
+
+  // The longest remaining ban decides when the user is free again
+  const permanent = activeBans.some((ban: any) => ban.is_permanent || !ban.expires_at);
+  const expires = permanent
+    ? null
+    : new Date(Math.max(...activeBans.map((ban: any) => ban.expires_at.getTime())));
+
+  return tx.user.update({
+    where: { anilist_user_id: userId },
+    data: { is_banned: true, ban_reason: activeBans[0].reason, ban_expires: expires }
+  });
+}
+
+// Claims a pending appeal for the admin, refusing while another admin's claim is live
+export async function claimAppeal(appealId: string, adminId: number) {
+  const staleBefore = new Date(Date.now() - CLAIM_TTL_MINUTES * 60 * 1000);
+
+  const { count } = await db.appeal.updateMany({
+    where: {
+      id: appealId,
+      status: AppealStatus.PENDING,
+      OR: [
+        { assigned_to: null },
+        { assigned_to: adminId },
+        { claimed_at: { lt: staleBefore } }
+      ]
+    },
+    data: { assigned_to: adminId, claimed_at: new Date() }
+  });
+
+  const appeal = await db.appeal.findUnique({ where: { id: appealId } });
+  if (count === 0 && appeal && appeal.status === AppealStatus.PENDING && isClaimLive(appeal)) {
+    throw new QueueClaimError(appeal.assigned_to!, appeal.claimed_at!, 'This appeal is claimed by another admin');
+  }
+
+  return appeal;
+}
+
+// Decides a pending appeal, lifting the ban or warning when accepted. Returns null when the
+// appeal was decided concurrently.
+export async function decideAppeal(
+  appealId: string,
+  adminId: number,
+  decision: AppealDecision,
+  note: string | null
+) {
+  return db.$transaction(async (tx) => {
+    const { count } = await tx.appeal.updateMany({
+      where: { id: appealId, status: AppealStatus.PENDING },
+      data: {
+        status: decision,
+        decided_by: adminId,
+        decided_at: new Date(),
+        decision_note: note,
+        assigned_to: null,
+        claimed_at: null
+      }
+    });
+    if (count === 0) return null;
+
+    const appeal = await tx.appeal.findUniqueOrThrow({
+      where: { id: appealId },
+      include: { ban: true, warning: true }
+    });
+
+    if (decision === 'ACCEPTED') {
+      if (appeal.ban) {
+        await tx.ban.update({ where: { id: appeal.ban.id }, data: { is_active: false } });
+        await restoreBanState(appeal.user_id, tx);
+      } else if (appeal.warning && appeal.warning.is_active) {
+        await tx.warning.update({ where: { id: appeal.warning.id }, data: { is_active: false } });
+        await tx.user.updateMany({
+          where: { anilist_user_id: appeal.user_id, warning_count: { gt: 0 } },
+          data: { warning_count: { decrement: 1 } }
+        });
+      }
+    }
+
+    return appeal;
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { db } from '@/app/api/db/connection';
+import { getClientIp } from '@/lib/client-ip';
 import { CreateAuditLogRequest } from '@/lib/types';
 
 export async function createAuditLog(request: NextRequest, auditData: CreateAuditLogRequest) {
@@ -11,7 +12,7 @@ export async function createAuditLog(request: NextRequest, auditData: CreateAudi
         target_type: auditData.target_type,
         target_id: auditData.target_id,
         details: auditData.details,
-        ip_address: auditData.ip_address || request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+        ip_address: auditData.ip_address || getClientIp(request),
         user_agent: auditData.user_agent || request.headers.get('user-agent')
       }
     });
@@ -35,7 +36,7 @@ export async function logUserAction(
     target_type: targetType,
     target_id: targetId,
     details,
-    ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+    ip_address: getClientIp(request),
     user_agent: request.headers.get('user-agent')
   });
 }
@@ -57,7 +58,7 @@ export async function logModerationAction(
       ...details,
       moderation_timestamp: new Date().toISOString()
     },
-    ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+    ip_address: getClientIp(request),
     user_agent: request.headers.get('user-agent')
   });
 }
@@ -76,7 +77,7 @@ export async function logSystemAction(
       ...details,
       system_timestamp: new Date().toISOString()
     },
-    ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+    ip_address: getClientIp(request),
     user_agent: request.headers.get('user-agent')
   });
 }
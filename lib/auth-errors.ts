@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+
+// Thrown by authenticateToken when a bearer token is missing, invalid, expired or revoked,
+// so route handlers can answer 401 instead of treating it as a server error
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export function unauthenticatedResponse(error: AuthenticationError) {
+  return NextResponse.json<ApiResponse>({
+    success: false,
+    error: error.message
+  }, { status: 401 });
+}
@@ -0,0 +1,489 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AutomodAction, CommentModerationStatus, MediaType, Prisma, Role, TagType } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { getClientIp } from '@/lib/client-ip';
+import { isSafePattern } from '@/lib/safe-regex';
+import { ApiResponse, AutomodConditions, AutomodMatch } from '@/lib/types';
+
+// Automoderation for new comments and edits.
+//
+// Active rules in scope (every media, or one media_id/media_type) are evaluated in priority
+// order against the content and its author. Every matching rule contributes its action:
+//   - REJECT: the highest-priority rejecting rule blocks the write with its message
+//   - HOLD: the comment is stored as HELD until a moderator approves it
+//   - SHADOW_HIDE: the comment is stored as HIDDEN; the author is not told
+//   - TAG_SPOILER / TAG_WARNING: the tag is added, attributed to the rule's author
+// HIDDEN outranks HELD. Moderators and above are never automoderated. Every action taken is
+// written to AuditLog as AUTOMOD_<ACTION> against the comment author.
+
+const RULE_CACHE_TTL_MS = 30 * 1000;
+
+export const MAX_RULE_KEYWORDS = 200;
+export const MAX_RULE_PATTERNS = 50;
+const MAX_PATTERN_LENGTH = 200;
+const PATTERN_FLAGS = 'iu';
+// Patterns never run on more than a full-length comment, whatever the caller passes in
+const MAX_PATTERN_SUBJECT_LENGTH = 2000;
+
+const STATUS_RANK: Record<CommentModerationStatus, number> = {
+  VISIBLE: 0,
+  HELD: 1,
+  HIDDEN: 2
+};
+
+const TAG_ACTIONS: Partial<Record<AutomodAction, TagType>> = {
+  TAG_SPOILER: TagType.SPOILER,
+  TAG_WARNING: TagType.WARNING
+};
+
+interface CompiledRule {
+  rule: any;
+  conditions: AutomodConditions;
+  keywords: { keyword: string; regex: RegExp }[];
+  patterns: RegExp[];
+}
+
+export interface AutomodSubject {
+  content: string;
+  media_id: number;
+  media_type: MediaType;
+  is_edit: boolean;
+  author: {
+    anilist_user_id: number;
+    role: Role;
+    created_at: Date;
+  };
+}
+
+export interface AutomodVerdict {
+  matches: AutomodMatch[];
+  rejection: (AutomodMatch & { message: string }) | null;
+  moderation_status: CommentModerationStatus;
+  tags: { tag_type: TagType; tagged_by: number }[];
+}
+
+const globalForAutomod = globalThis as unknown as {
+  automodRuleCache: { rules: CompiledRule[]; loaded_at: number } | undefined;
+};
+
+// Thrown when a REJECT rule matches so route handlers can answer with the rule's message
+export class AutomodRejectedError extends Error {
+  readonly match: AutomodMatch;
+
+  constructor(rejection: AutomodMatch & { message: string }) {
+    super(rejection.message);
+    this.name = 'AutomodRejectedError';
+    const { message, ...match } = rejection;
+    this.match = match;
+  }
+}
+
+export function automodRejectedResponse(error: AutomodRejectedError) {
+  return NextResponse.json<ApiResponse>({
+    success: false,
+    error: error.message
+  }, { status: 400 });
+}
+
+export function isAutomodExempt(user: { role: Role }): boolean {
+  return user.role === Role.MODERATOR || user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN;
+}
+
+export function strongerModerationStatus(
+  a: CommentModerationStatus,
+  b: CommentModerationStatus
+): CommentModerationStatus {
+  return STATUS_RANK[b] > STATUS_RANK[a] ? b : a;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words or phrases, so "ass" does not match "class"
+function keywordRegex(keyword: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(keyword)}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+function compileRule(rule: any): CompiledRule {
+  const conditions = (rule.conditions || {}) as AutomodConditions;
+  return {
+    rule,
+    conditions,
+    keywords: (conditions.keywords || []).map(keyword => ({ keyword, regex: keywordRegex(keyword) })),
+    patterns: (conditions.patterns || []).map(compilePattern)
+  };
+}
+
+// Throws for patterns parseConditions would refuse
+function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  const regex = new RegExp(pattern, PATTERN_FLAGS);
+  if (!isSafePattern(pattern, PATTERN_FLAGS)) {
+    throw new Error(`Pattern has nested or overlapping quantifiers: ${pattern}`);
+  }
+  return regex;
+}
+
+// Rules change rarely and are read on every comment, so compiled rules are cached briefly.
+// Writes through the admin API clear the cache of the instance that handled them.
+async function loadRules(): Promise<CompiledRule[]> {
+  const cached = globalForAutomod.automodRuleCache;
+  if (cached && Date.now() - cached.loaded_at < RULE_CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  const rules = await db.automodRule.findMany({
+    where: { is_active: true, deleted_at: null },
+    orderBy: [{ priority: 'desc' }, { created_at: 'asc' }]
+  });
+
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules) {
+    try {
+      compiled.push(compileRule(rule));
+    } catch (error) {
+      // Patterns are validated on save, so this only happens for rows edited by hand
+      console.error(`Skipping automod rule ${rule.id} with an invalid or unsafe pattern:`, error);
+    }
+  }
+
+  globalForAutomod.automodRuleCache = { rules: compiled, loaded_at: Date.now() };
+  return compiled;
+}
+
+export function clearAutomodRuleCache() {
+  globalForAutomod.automodRuleCache = undefined;
+}
+
+export function countLinks(content: string): number {
+  return (content.match(/\bhttps?:\/\/\S+|\bwww\.\S+/gi) || []).length;
+}
+
+export function longestRepeatedRun(content: string): number {
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+
+  for (const char of Array.from(content)) {
+    run = char === previous && !/\s/.test(char) ? run + 1 : 1;
+    previous = char;
+    longest = Math.max(longest, run);
+  }
+
+  return longest;
+}
+
+// null when the text has too few letters for the ratio to mean anything
+export function capsRatio(content: string): number | null {
+  const letters = content.match(new RegExp('\\p{L}', 'gu')) || [];
+  if (letters.length < 10) return null;
+  const upper = content.match(new RegExp('\\p{Lu}', 'gu')) || [];
+  return upper.length / letters.length;
+}
+
+// Returns the reasons the rule matched, or null when any of its conditions does not
+function matchRule(compiled: CompiledRule, subject: AutomodSubject): string[] | null {
+  const { rule, conditions } = compiled;
+  const reasons: string[] = [];
+
+  if (rule.media_id !== null && rule.media_id !== subject.media_id) return null;
+  if (rule.media_type !== null && rule.media_type !== subject.media_type) return null;
+  if (subject.is_edit && !rule.applies_to_edits) return null;
+
+  if (compiled.keywords.length > 0) {
+    const hit = compiled.keywords.find(({ regex }) => regex.test(subject.content));
+    if (!hit) return null;
+    reasons.push(`keyword: ${hit.keyword}`);
+  }
+
+  if (compiled.patterns.length > 0) {
+    const content = subject.content.slice(0, MAX_PATTERN_SUBJECT_LENGTH);
+    const hit = compiled.patterns.find(regex => regex.test(content));
+    if (!hit) return null;
+    reasons.push(`pattern: ${hit.source}`);
+  }
+
+  if (conditions.min_links !== undefined) {
+    const links = countLinks(subject.content);
+    if (links < conditions.min_links) return null;
+    reasons.push(`links: ${links}`);
+  }
+
+  if (conditions.min_repeated_chars !== undefined) {
+    const run = longestRepeatedRun(subject.content);
+    if (run < conditions.min_repeated_chars) return null;
+    reasons.push(`repeated characters: ${run}`);
+  }
+
+  if (conditions.min_caps_ratio !== undefined) {
+    const ratio = capsRatio(subject.content);
+    if (ratio === null || ratio < conditions.min_caps_ratio) return null;
+    reasons.push(`caps ratio: ${ratio.toFixed(2)}`);
+  }
+
+  if (conditions.max_account_age_hours !== undefined) {
+    const ageHours = (Date.now() - new Date(subject.author.created_at).getTime()) / (60 * 60 * 1000);
+    if (ageHours >= conditions.max_account_age_hours) return null;
+    reasons.push(`account age: ${Math.floor(ageHours)}h`);
+  }
+
+  return reasons;
+}
+
+export async function evaluateAutomod(subject: AutomodSubject): Promise<AutomodVerdict> {
+  const verdict: AutomodVerdict = {
+    matches: [],
+    rejection: null,
+    moderation_status: CommentModerationStatus.VISIBLE,
+    tags: []
+  };
+
+  if (isAutomodExempt(subject.author)) {
+    return verdict;
+  }
+
+  for (const compiled of await loadRules()) {
+    const reasons = matchRule(compiled, subject);
+    if (!reasons) continue;
+
+    const { rule } = compiled;
+    const match: AutomodMatch = {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      rule_version: rule.version,
+      action: rule.action,
+      reasons
+    };
+
+    if (rule.action === AutomodAction.REJECT) {
+      // Rules are sorted by priority, so the first rejection is the one reported
+      if (!verdict.rejection) {
+        verdict.rejection = {
+          ...match,
+          message: rule.message || 'Your comment was blocked by an automatic filter'
+        };
+      }
+      continue;
+    }
+
+    verdict.matches.push(match);
+
+    if (rule.action === AutomodAction.HOLD) {
+      verdict.moderation_status = strongerModerationStatus(verdict.moderation_status, CommentModerationStatus.HELD);
+    } else if (rule.action === AutomodAction.SHADOW_HIDE) {
+      verdict.moderation_status = strongerModerationStatus(verdict.moderation_status, CommentModerationStatus.HIDDEN);
+    } else {
+      const tagType = TAG_ACTIONS[rule.action as AutomodAction];
+      if (tagType && !verdict.tags.some(tag => tag.tag_type === tagType)) {
+        verdict.tags.push({ tag_type: tagType, tagged_by: rule.updated_by ?? rule.created_by });
+      }
+    }
+  }
+
+  // Nothing else happens to rejected content
+  if (verdict.rejection) {
+    verdict.matches = [];
+    verdict.moderation_status = CommentModerationStatus.VISIBLE;
+    verdict.tags = [];
+  }
+
+  return verdict;
+}
+
+// Adds the tags automoderation asked for; returns the comment's resulting tags
+export async function applyAutomodTags(commentId: number, verdict: AutomodVerdict) {
+  for (const tag of verdict.tags) {
+    await db.commentTag.upsert({
+      where: { comment_id_tag_type: { comment_id: commentId, tag_type: tag.tag_type } },
+      create: { comment_id: commentId, tag_type: tag.tag_type, tagged_by_user_id: tag.tagged_by },
+      update: {}
+    });
+  }
+
+  return verdict.tags.length > 0
+    ? db.commentTag.findMany({ where: { comment_id: commentId } })
+    : [];
+}
+
+// One AuditLog row per automatic action; commentId is null for rejected new comments
+export async function recordAutomodActions(
+  request: NextRequest,
+  verdict: AutomodVerdict,
+  subject: AutomodSubject,
+  commentId: number | null
+) {
+  const matches = verdict.rejection ? [verdict.rejection] : verdict.matches;
+  if (matches.length === 0) return;
+
+  await db.auditLog.createMany({
+    data: matches.map(match => ({
+      user_id: subject.author.anilist_user_id,
+      action: `AUTOMOD_${match.action}`,
+      target_type: 'comment',
+      target_id: commentId !== null ? String(commentId) : null,
+      details: {
+        automated: true,
+        rule_id: match.rule_id,
+        rule_name: match.rule_name,
+        rule_version: match.rule_version,
+        reasons: match.reasons,
+        is_edit: subject.is_edit,
+        media_id: subject.media_id,
+        media_type: subject.media_type,
+        // Rejected content is not stored anywhere else
+        ...(match.action === AutomodAction.REJECT ? { content: subject.content } : {})
+      },
+      ip_address: getClientIp(request),
+      user_agent: request.headers.get('user-agent')
+    }))
+  });
+}
+
+// The definition stored in AutomodRuleVersion for each version of a rule
+export function ruleSnapshot(rule: any) {
+  return {
+    name: rule.name,
+    description: rule.description,
+    conditions: rule.conditions,
+    action: rule.action,
+    message: rule.message,
+    media_id: rule.media_id,
+    media_type: rule.media_type,
+    applies_to_edits: rule.applies_to_edits,
+    priority: rule.priority,
+    is_active: rule.is_active,
+    deleted_at: rule.deleted_at
+  };
+}
+
+function isStringList(value: unknown, max: number, maxLength: number): value is string[] {
+  return Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= max &&
+    value.every(item => typeof item === 'string' && item.trim().length > 0 && item.length <= maxLength);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+export function parseConditions(value: any): { conditions: AutomodConditions } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'conditions must be an object' };
+  }
+
+  const conditions: AutomodConditions = {};
+
+  if (value.keywords !== undefined) {
+    if (!isStringList(value.keywords, MAX_RULE_KEYWORDS, 100)) {
+      return { error: `keywords must be a list of 1-${MAX_RULE_KEYWORDS} strings of up to 100 characters` };
+    }
+    conditions.keywords = Array.from(new Set(value.keywords.map((keyword: string) => keyword.trim())));
+  }
+
+  if (value.patterns !== undefined) {
+    if (!isStringList(value.patterns, MAX_RULE_PATTERNS, MAX_PATTERN_LENGTH)) {
+      return { error: `patterns must be a list of 1-${MAX_RULE_PATTERNS} strings of up to ${MAX_PATTERN_LENGTH} characters` };
+    }
+    for (const pattern of value.patterns) {
+      try {
+        new RegExp(pattern, PATTERN_FLAGS);
+      } catch {
+        return { error: `Invalid pattern: ${pattern}` };
+      }
+      if (!isSafePattern(pattern, PATTERN_FLAGS)) {
+        return { error: `Pattern has nested or overlapping quantifiers that could make matching too slow: ${pattern}` };
+      }
+    }
+    conditions.patterns = value.patterns;
+  }
+
+  for (const field of ['min_links', 'min_repeated_chars', 'max_account_age_hours'] as const) {
+    if (value[field] === undefined) continue;
+    if (!isPositiveInteger(value[field])) {
+      return { error: `${field} must be a positive integer` };
+    }
+    conditions[field] = value[field];
+  }
+
+  if (value.min_caps_ratio !== undefined) {
+    if (typeof value.min_caps_ratio !== 'number' || value.min_caps_ratio <= 0 || value.min_caps_ratio > 1) {
+      return { error: 'min_caps_ratio must be a number above 0 and at most 1' };
+    }
+    conditions.min_caps_ratio = value.min_caps_ratio;
+  }
+
+  if (Object.keys(conditions).length === 0) {
+    return { error: 'conditions must set at least one of keywords, patterns, min_links, min_repeated_chars, min_caps_ratio or max_account_age_hours' };
+  }
+
+  return { conditions };
+}
+
+// Rule fields an admin can set through the API
+export type AutomodRuleInput = Omit<
+  Prisma.AutomodRuleUncheckedCreateInput,
+  'id' | 'version' | 'created_by' | 'updated_by' | 'deleted_at' | 'created_at' | 'updated_at' | 'versions'
+>;
+
+// Validates a rule body for create (partial = false) or update (partial = true)
+export function parseRuleInput(body: any, partial: false): { data: AutomodRuleInput } | { error: string };
+export function parseRuleInput(body: any, partial: true): { data: Partial<AutomodRuleInput> } | { error: string };
+export function parseRuleInput(body: any, partial: boolean): { data: Record<string, any> } | { error: string } {
+  const data: Record<string, any> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0 || body.name.length > 100) {
+      return { error: 'name is required (max 100 characters)' };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (!partial || body.conditions !== undefined) {
+    const parsed = parseConditions(body.conditions);
+    if ('error' in parsed) return parsed;
+    data.conditions = parsed.conditions;
+  }
+
+  if (!partial || body.action !== undefined) {
+    if (!Object.values(AutomodAction).includes(body.action)) {
+      return { error: `action must be one of: ${Object.values(AutomodAction).join(', ')}` };
+    }
+    data.action = body.action;
+  }
+
+  if (body.media_id !== undefined) {
+    if (body.media_id !== null && !isPositiveInteger(body.media_id)) {
+      return { error: 'media_id must be a positive integer or null' };
+    }
+    data.media_id = body.media_id;
+  }
+
+  if (body.media_type !== undefined) {
+    if (body.media_type !== null && !Object.values(MediaType).includes(body.media_type)) {
+      return { error: 'media_type must be ANIME, MANGA or null' };
+    }
+    data.media_type = body.media_type;
+  }
+
+  for (const field of ['applies_to_edits', 'is_active'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') return { error: `${field} must be a boolean` };
+    data[field] = body[field];
+  }
+
+  if (body.priority !== undefined) {
+    if (!Number.isInteger(body.priority)) return { error: 'priority must be an integer' };
+    data.priority = body.priority;
+  }
+
+  for (const field of ['description', 'message'] as const) {
+    if (body[field] === undefined) continue;
+    data[field] = typeof body[field] === 'string' ? body[field].slice(0, 200) : null;
+  }
+
+  return { data };
+}
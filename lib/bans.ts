@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db as defaultDb } from '@/app/api/db/connection';
+import { recountVotesByUser } from '@/lib/scoring';
+import { ApiResponse, BanErrorDetails } from '@/lib/types';
+
+// Thrown by enforceNotBanned so route handlers can turn it into a structured 403
+export class BannedUserError extends Error {
+  readonly details: BanErrorDetails;
+
+  constructor(details: BanErrorDetails) {
+    super(details.is_permanent
+      ? 'You are permanently banned'
+      : `You are banned until ${details.expires_at?.toISOString()}`);
+    this.name = 'BannedUserError';
+    this.details = details;
+  }
+}
+
+// Clears bans and shadow bans whose expiry has passed, deactivating the matching Ban
+// records. Returns the user with the cleared fields so callers can keep using it.
+export async function clearExpiredBans<T extends {
+  anilist_user_id: number;
+  is_banned: boolean;
+  ban_expires: Date | null;
+  shadow_banned: boolean;
+  shadow_ban_expires: Date | null;
+}>(user: T, db: Prisma.TransactionClient = defaultDb): Promise<T> {
+  const now = new Date();
+  const banExpired = user.is_banned && !!user.ban_expires && user.ban_expires <= now;
+  const shadowBanExpired = user.shadow_banned && !!user.shadow_ban_expires && user.shadow_ban_expires <= now;
+
+  if (!banExpired && !shadowBanExpired) {
+    return user;
+  }
+
+  const data: Prisma.UserUpdateInput = {};
+  if (banExpired) {
+    Object.assign(data, { is_banned: false, ban_reason: null, ban_expires: null });
+  }
+  if (shadowBanExpired) {
+    Object.assign(data, { shadow_banned: false, shadow_ban_reason: null, shadow_ban_expires: null });
+  }
+
+  const updated = await db.user.update({
+    where: { anilist_user_id: user.anilist_user_id },
+    data
+  });
+
+  if (banExpired) {
+    await db.ban.updateMany({
+      where: {
+        user_id: user.anilist_user_id,
+        is_active: true,
+        is_permanent: false,
+        expires_at: { lte: now }
+      },
+      data: { is_active: false }
+    });
+  }
+
+  if (shadowBanExpired) {
+    // Their votes count again
+    await recountVotesByUser(user.anilist_user_id);
+  }
+
+  return { ...user, ...updated };
+}
+
+const LAPSED_BAN_BATCH_SIZE = 100;
+
+// Clears lapsed bans and shadow bans of users who have not written since, so their Ban records
+// are closed and votes they cast while shadow-banned count toward the totals again. Run on a
+// schedule by GET /api/cron/bans; returns how many users were cleared.
+export async function clearLapsedBans(limit = LAPSED_BAN_BATCH_SIZE): Promise<number> {
+  const now = new Date();
+  const users = await defaultDb.user.findMany({
+    where: {
+      OR: [
+        { is_banned: true, ban_expires: { lte: now } },
+        { shadow_banned: true, shadow_ban_expires: { lte: now } }
+      ]
+    },
+    take: limit
+  });
+
+  for (const user of users) {
+    await clearExpiredBans(user);
+  }
+  return users.length;
+}
+
+// Single enforcement point for every mutating route: clears expired bans, then rejects
+// users who are still banned. Shadow-banned users are let through on purpose, since
+// rejecting them would reveal the shadow ban.
+export async function enforceNotBanned<T extends {
+  anilist_user_id: number;
+  is_banned: boolean;
+  ban_reason: string | null;
+  ban_expires: Date | null;
+  shadow_banned: boolean;
+  shadow_ban_expires: Date | null;
+}>(user: T, db: Prisma.TransactionClient = defaultDb): Promise<T> {
+  const current = await clearExpiredBans(user, db);
+
+  if (current.is_banned) {
+    throw new BannedUserError({
+      reason: current.ban_reason || 'No reason provided',
+      expires_at: current.ban_expires,
+      is_permanent: !current.ban_expires,
+      appeal_url: '/api/appeals'
+    });
+  }
+
+  return current;
+}
+
+// Runs enforceNotBanned for a mutating route and returns the structured 403 for a user who
+// is still banned, or null when the write may go ahead
+export async function rejectBannedUser(user: Parameters<typeof enforceNotBanned>[0]): Promise<NextResponse | null> {
+  try {
+    await enforceNotBanned(user);
+    return null;
+  } catch (error) {
+    if (error instanceof BannedUserError) {
+      return bannedResponse(error);
+    }
+    throw error;
+  }
+}
+
+export function bannedResponse(error: BannedUserError) {
+  return NextResponse.json<ApiResponse<{ ban: BanErrorDetails }>>({
+    success: false,
+    error: error.message,
+    data: { ban: error.details }
+  }, { status: 403 });
+}
@@ -0,0 +1,93 @@
+import { isIP } from 'net';
+import { NextRequest } from 'next/server';
+
+// Client IP extraction for per-IP rate limiting.
+//
+// x-forwarded-for is a comma-separated chain that every proxy appends to, so only the entries
+// added by our own proxies can be trusted; anything to their left is whatever the client sent.
+// TRUSTED_PROXIES configures how the chain is read:
+//   - a number N (default 1): N proxies in front of the app, the client is the Nth entry from the right
+//   - a comma-separated list of IPs or IPv4 CIDRs: entries from the right are skipped while they
+//     match, the first one that does not is the client
+//   - 0 or "none": forwarded headers are ignored
+// x-real-ip is only used when x-forwarded-for is absent and at least one proxy is trusted.
+
+type TrustedProxies = { hops: number } | { ranges: string[] };
+
+function getTrustedProxies(): TrustedProxies {
+  const value = (process.env.TRUSTED_PROXIES || '1').trim();
+
+  if (value === 'none') {
+    return { hops: 0 };
+  }
+  if (/^\d+$/.test(value)) {
+    return { hops: parseInt(value, 10) };
+  }
+
+  return {
+    ranges: value.split(',').map(entry => entry.trim()).filter(Boolean)
+  };
+}
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+}
+
+// IPv4 addresses match exact entries and CIDR ranges; IPv6 addresses match exact entries only
+function matchesRange(ip: string, range: string): boolean {
+  const [base, bits] = range.split('/');
+  if (bits === undefined || isIP(ip) !== 4 || isIP(base) !== 4) {
+    return ip === base;
+  }
+
+  const prefix = parseInt(bits, 10);
+  if (isNaN(prefix) || prefix < 0 || prefix > 32) return false;
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return (ipv4ToNumber(ip) & mask) === (ipv4ToNumber(base) & mask);
+}
+
+// Strips ports and the IPv4-mapped IPv6 prefix so the same client always yields the same key
+function normalizeIp(value: string): string | null {
+  let ip = value.trim();
+  if (ip.startsWith('[')) {
+    ip = ip.slice(1, ip.indexOf(']'));
+  } else if (ip.includes('.') && ip.includes(':')) {
+    ip = ip.slice(0, ip.lastIndexOf(':'));
+  }
+  if (ip.toLowerCase().startsWith('::ffff:') && isIP(ip.slice(7)) === 4) {
+    ip = ip.slice(7);
+  }
+  return isIP(ip) ? ip.toLowerCase() : null;
+}
+
+export function getClientIp(request: NextRequest): string {
+  const trusted = getTrustedProxies();
+  const fallback = normalizeIp(request.ip || '') || 'unknown';
+
+  if ('hops' in trusted && trusted.hops === 0) {
+    return fallback;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (!forwardedFor) {
+    return normalizeIp(request.headers.get('x-real-ip') || '') || fallback;
+  }
+
+  const chain = forwardedFor.split(',').map(normalizeIp);
+
+  if ('hops' in trusted) {
+    // A chain shorter than the proxy count means a proxy was bypassed; use the leftmost entry
+    const index = Math.max(chain.length - trusted.hops, 0);
+    return chain[index] || fallback;
+  }
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const ip = chain[i];
+    if (!ip) return fallback;
+    if (!trusted.ranges.some(range => matchesRange(ip, range))) {
+      return ip;
+    }
+  }
+
+  return chain[0] || fallback;
+}
@@ -0,0 +1,246 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { buildSqlOrderBy, compareBySort, encodeCursor, encodeStartCursor, resolveCommentSort } from '@/lib/pagination';
+import { isShadowBanned } from '@/lib/permissions';
+import { isRestrictionLive } from '@/lib/locks';
+import { buildVisibilitySql, buildVisibilityWhere } from '@/lib/visibility';
+import { Comment, CommentMention } from '@/lib/types';
+
+export const COMMENT_USER_SELECT = {
+  id: true,
+  anilist_user_id: true,
+  username: true,
+  profile_picture_url: true,
+  is_mod: true,
+  is_admin: true,
+  role: true,
+  // Needed for shadow-ban visibility; never copied into formatted output for regular viewers
+  shadow_banned: true,
+  shadow_ban_expires: true
+};
+
+export const DEFAULT_REPLIES_PER_NODE = 10;
+export const MAX_REPLIES_PER_NODE = 50;
+export const DEFAULT_REPLIES_PER_DEPTH = 100;
+export const MAX_REPLIES_PER_DEPTH = 500;
+
+// Replies keep their historical oldest-first order unless a reply sort is requested.
+// Continuation tokens for truncated nodes are cursors for GET /api/comments/[id]/replies
+// issued for that sort.
+export const DEFAULT_REPLY_SORT = 'oldest';
+
+export interface CommentTreeOptions {
+  userId: number | null;
+  isModerator?: boolean;
+  maxDepth: number;
+  includeDeleted: boolean;
+  repliesPerNode?: number;
+  repliesPerDepth?: number;
+  replySort?: string;
+}
+
+interface KeptReply {
+  id: number;
+}
+
+export function parseReplyLimits(searchParams: URLSearchParams) {
+  const perNode = parseInt(searchParams.get('replies_per_node') || String(DEFAULT_REPLIES_PER_NODE));
+  const perDepth = parseInt(searchParams.get('replies_per_depth') || String(DEFAULT_REPLIES_PER_DEPTH));
+
+  return {
+    repliesPerNode: Math.min(Math.max(isNaN(perNode) ? DEFAULT_REPLIES_PER_NODE : perNode, 1), MAX_REPLIES_PER_NODE),
+    repliesPerDepth: Math.min(Math.max(isNaN(perDepth) ? DEFAULT_REPLIES_PER_DEPTH : perDepth, 1), MAX_REPLIES_PER_DEPTH),
+    replySort: searchParams.get('reply_sort') || DEFAULT_REPLY_SORT
+  };
+}
+
+// Shared include for listing queries so top-level comments and replies carry the same data.
+// Reply counts only include replies the viewer is allowed to see.
+export function buildCommentInclude(userId: number | null, includeDeleted: boolean, isModerator = false) {
+  return {
+    user: {
+      select: COMMENT_USER_SELECT
+    },
+    votes: userId ? {
+      where: { user_id: userId }
+    } : false,
+    tags: true,
+    mentions: {
+      select: {
+        mentioned_user_id: true,
+        mentioned_user: { select: { username: true } }
+      }
+    },
+    _count: {
+      select: {
+        replies: {
+          where: {
+            ...(includeDeleted ? {} : { is_deleted: false }),
+            ...buildVisibilityWhere(userId, isModerator)
+          }
+        }
+      }
+    }
+  };
+}
+
+// Moderators get author_shadow_banned on comments whose author is currently shadow-banned,
+// and moderation_status on comments held or hidden by automoderation
+export function formatComment(comment: any, replies: Comment[] = [], isModerator = false): Comment {
+  const formatted: Comment = {
+    id: comment.id,
+    media_id: comment.media_id,
+    media_type: comment.media_type,
+    unit_number: comment.unit_number ?? null,
+    parent_comment_id: comment.parent_comment_id,
+    root_comment_id: comment.root_comment_id,
+    depth_level: comment.depth_level,
+    content: comment.is_deleted ? '[deleted]' : comment.content,
+    anilist_user_id: comment.anilist_user_id,
+    upvotes: comment.upvotes,
+    downvotes: comment.downvotes,
+    total_votes: comment.total_votes,
+    hot_score: comment.hot_score,
+    controversy_score: comment.controversy_score,
+    best_score: comment.best_score,
+    user_vote_type: (comment.votes && comment.votes.length > 0) ? comment.votes[0].vote_type : null,
+    is_deleted: comment.is_deleted,
+    deleted_by: comment.deleted_by,
+    delete_reason: comment.delete_reason,
+    is_edited: comment.is_edited,
+    is_pinned: comment.is_pinned,
+    pin_expires: comment.pin_expires,
+    edit_history: comment.edit_history,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+    username: comment.user?.username || 'Unknown',
+    profile_picture_url: comment.user?.profile_picture_url || null,
+    is_mod: comment.user?.is_mod || false,
+    is_admin: comment.user?.is_admin || false,
+    role: comment.user?.role,
+    tags: comment.tags,
+    mentions: formatMentions(comment.mentions),
+    reply_count: comment._count?.replies ?? 0,
+    replies
+  };
+
+  if (isModerator && comment.user && isShadowBanned(comment.user)) {
+    formatted.author_shadow_banned = true;
+  }
+
+  if (comment.is_collapsed) {
+    formatted.is_collapsed = true;
+  }
+
+  if (isRestrictionLive(comment.is_locked, comment.lock_expires)) {
+    formatted.is_locked = true;
+    formatted.lock_expires = comment.lock_expires;
+  }
+
+  if (isModerator && comment.moderation_status && comment.moderation_status !== 'VISIBLE') {
+    formatted.moderation_status = comment.moderation_status;
+  }
+
+  return formatted;
+}
+
+export function formatMentions(mentions: any[] | undefined): CommentMention[] {
+  return (mentions || []).map(mention => ({
+    user_id: mention.mentioned_user_id,
+    username: mention.mentioned_user?.username || 'Unknown'
+  }));
+}
+
+// Attaches capped reply trees to already formatted comments using two queries.
+// A recursive query walks down from the parents, keeping only the first repliesPerNode
+// visible children of each kept node (a LATERAL ... LIMIT per parent) and stopping at
+// maxDepth, so replies under cut siblings are never read. The kept replies are then loaded
+// and assembled level by level in memory while repliesPerDepth bounds each level.
+// Every truncated node gets more_replies, from its visible reply count, and a cursor for
+// the replies endpoint.
+export async function attachReplyTrees(parents: Comment[], options: CommentTreeOptions): Promise<void> {
+  if (parents.length === 0) return;
+
+  const repliesPerNode = options.repliesPerNode ?? DEFAULT_REPLIES_PER_NODE;
+  const repliesPerDepth = options.repliesPerDepth ?? DEFAULT_REPLIES_PER_DEPTH;
+  const { sortKey, fields: sortFields } = resolveCommentSort(options.replySort || null, DEFAULT_REPLY_SORT);
+
+  const parentIds = parents
+    .filter(parent => parent.depth_level + 1 < options.maxDepth)
+    .map(parent => parent.id);
+
+  // First repliesPerNode visible children of the comment in `parentColumn`
+  const keptChildren = (parentColumn: Prisma.Sql) => Prisma.sql`
+    SELECT c.id, c.depth_level FROM comments c
+    WHERE c.parent_comment_id = ${parentColumn}
+      ${options.includeDeleted ? Prisma.empty : Prisma.sql`AND c.is_deleted = false`}
+      ${buildVisibilitySql(options.userId, options.isModerator ?? false, 'c')}
+    ORDER BY ${Prisma.raw(buildSqlOrderBy(sortFields, 'c'))}
+    LIMIT ${repliesPerNode}
+  `;
+
+  const kept = parentIds.length === 0 ? [] : await db.$queryRaw<KeptReply[]>`
+    WITH RECURSIVE kept AS (
+      SELECT child.id, child.depth_level
+      FROM unnest(${parentIds}::int[]) AS parent(id)
+      CROSS JOIN LATERAL (${keptChildren(Prisma.sql`parent.id`)}) child
+      UNION ALL
+      SELECT child.id, child.depth_level
+      FROM kept
+      CROSS JOIN LATERAL (${keptChildren(Prisma.sql`kept.id`)}) child
+      WHERE kept.depth_level + 1 < ${options.maxDepth}
+    )
+    SELECT id FROM kept
+  `;
+
+  const rows = kept.length === 0 ? [] : await db.comment.findMany({
+    where: { id: { in: kept.map(row => row.id) } },
+    include: buildCommentInclude(options.userId, options.includeDeleted, options.isModerator)
+  });
+
+  const childrenByParent = new Map<number, any[]>();
+  for (const row of rows) {
+    if (row.parent_comment_id === null) continue;
+    const siblings = childrenByParent.get(row.parent_comment_id) || [];
+    siblings.push(row);
+    childrenByParent.set(row.parent_comment_id, siblings);
+  }
+  const compare = compareBySort(sortFields);
+  childrenByParent.forEach(siblings => siblings.sort(compare));
+
+  // Breadth first so the per-depth budget is shared fairly between sibling subtrees.
+  // Replies whose parent was filtered out (e.g. deleted) are never reached.
+  let level = parents;
+  while (level.length > 0) {
+    let budget = repliesPerDepth;
+    const nextLevel: Comment[] = [];
+
+    for (const node of level) {
+      if (node.depth_level + 1 >= options.maxDepth) {
+        // Children lie beyond the requested depth; the client continues the thread from here
+        node.replies = [];
+        node.more_replies = node.reply_count || 0;
+        node.more_replies_cursor = node.more_replies > 0 ? encodeStartCursor(sortKey) : null;
+        continue;
+      }
+
+      const children = childrenByParent.get(node.id) || [];
+      const shown = children.slice(0, Math.max(budget, 0)).map(child => formatComment(child, [], options.isModerator));
+      budget -= shown.length;
+
+      const last = shown[shown.length - 1];
+      node.replies = shown;
+      node.more_replies = Math.max((node.reply_count || 0) - shown.length, 0);
+      if (node.more_replies === 0) {
+        node.more_replies_cursor = null;
+      } else {
+        // Nothing shown when the level's budget ran out first, so continue from the first child
+        node.more_replies_cursor = last ? encodeCursor(sortKey, sortFields, last) : encodeStartCursor(sortKey);
+      }
+
+      nextLevel.push(...shown);
+    }
+
+    level = nextLevel;
+  }
+}
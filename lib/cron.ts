@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/lib/types';
+
+// Scheduled jobs live under /api/cron and are scheduled in vercel.json. Vercel Cron calls them
+// with "Authorization: Bearer <CRON_SECRET>"; any other scheduler must send the same header.
+
+// Returns the error response for a request that is not from the scheduler, or null
+export function rejectUnscheduledRequest(request: NextRequest): NextResponse<ApiResponse> | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'CRON_SECRET is not configured'
+    }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Unauthorized'
+    }, { status: 401 });
+  }
+
+  return null;
+}
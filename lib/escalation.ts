@@ -0,0 +1,340 @@
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { getClientIp } from '@/lib/client-ip';
+import { restoreBanState } from '@/lib/appeals';
+import { notifyModeration } from '@/lib/notifications';
+import { publishEvent } from '@/lib/events';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { revokeUserSessions } from '@/lib/session';
+import { EscalationPreview, EscalationStep } from '@/lib/types';
+
+// Warning escalation ladder. Each step bans a user automatically once a new warning brings
+// their active warnings within the step's window up to its warning_count; only the warning
+// that crosses a threshold triggers it, so later warnings do not repeat the same sanction.
+// When several steps are crossed at once the most severe one applies.
+//
+// Steps come from the escalation_policies table; while none are active the built-in ladder
+// below applies. Warnings decay after WARNING_EXPIRY_DAYS (default 90, 0 = never) and stop
+// counting. WARNING_ESCALATION_ENABLED="false" turns automatic bans off.
+//
+// Warnings are issued through issueWarning, which holds a lock on the user's row while the
+// warning is added and the ladder is checked, so concurrent warnings are counted one after
+// another and each threshold is crossed exactly once.
+
+export const DEFAULT_ESCALATION_LADDER: EscalationStep[] = [
+  { id: null, name: '3 warnings in 30 days', warning_count: 3, window_days: 30, ban_hours: 24, is_permanent: false },
+  { id: null, name: '5 warnings in 30 days', warning_count: 5, window_days: 30, ban_hours: 7 * 24, is_permanent: false },
+  { id: null, name: '6 warnings in 30 days', warning_count: 6, window_days: 30, ban_hours: null, is_permanent: true }
+];
+
+const LADDER_CACHE_TTL_MS = 30 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const globalForEscalation = globalThis as unknown as {
+  escalationLadderCache: { steps: EscalationStep[]; loaded_at: number } | undefined;
+};
+
+export function isEscalationEnabled(): boolean {
+  return process.env.WARNING_ESCALATION_ENABLED !== 'false';
+}
+
+export function getWarningExpiryDays(): number {
+  const days = parseInt(process.env.WARNING_EXPIRY_DAYS || '');
+  return days >= 0 ? days : 90;
+}
+
+// Expiry for a warning issued now; expiresInDays overrides the configured default and
+// null means the warning never decays
+export function warningExpiresAt(expiresInDays?: number | null): Date | null {
+  const days = expiresInDays === undefined ? getWarningExpiryDays() : expiresInDays;
+  return days ? new Date(Date.now() + days * DAY_MS) : null;
+}
+
+export async function loadEscalationLadder(): Promise<EscalationStep[]> {
+  const cached = globalForEscalation.escalationLadderCache;
+  if (cached && Date.now() - cached.loaded_at < LADDER_CACHE_TTL_MS) {
+    return cached.steps;
+  }
+
+  const policies = await db.escalationPolicy.findMany({
+    where: { is_active: true },
+    orderBy: { warning_count: 'asc' }
+  });
+
+  const steps = policies.length === 0 ? DEFAULT_ESCALATION_LADDER : policies.map(policy => ({
+    id: policy.id,
+    name: policy.name,
+    warning_count: policy.warning_count,
+    window_days: policy.window_days,
+    ban_hours: policy.ban_hours,
+    is_permanent: policy.is_permanent
+  }));
+  globalForEscalation.escalationLadderCache = { steps, loaded_at: Date.now() };
+  return steps;
+}
+
+export function clearEscalationPolicyCache() {
+  globalForEscalation.escalationLadderCache = undefined;
+}
+
+// Deactivates the user's decayed warnings and keeps warning_count equal to their active warnings
+export async function expireWarnings(userId: number, tx: Prisma.TransactionClient = db): Promise<number> {
+  const now = new Date();
+  const { count } = await tx.warning.updateMany({
+    where: { user_id: userId, is_active: true, expires_at: { lte: now } },
+    data: { is_active: false }
+  });
+
+  const active = await tx.warning.count({ where: { user_id: userId, is_active: true } });
+  await tx.user.update({
+    where: { anilist_user_id: userId },
+    data: { warning_count: active }
+  });
+
+  return count;
+}
+
+// Active warnings per distinct window of the ladder, keyed by window_days
+async function countWarningsByWindow(
+  userId: number,
+  steps: EscalationStep[],
+  tx: Prisma.TransactionClient = db
+): Promise<Record<number, number>> {
+  const now = Date.now();
+  const windows = Array.from(new Set(steps.map(step => step.window_days)));
+  const counts = await Promise.all(windows.map(days => tx.warning.count({
+    where: {
+      user_id: userId,
+      is_active: true,
+      created_at: { gte: new Date(now - days * DAY_MS) }
+    }
+  })));
+
+  return Object.fromEntries(windows.map((days, i) => [days, counts[i]]));
+}
+
+function severity(step: EscalationStep): number {
+  return step.is_permanent ? Number.MAX_SAFE_INTEGER : step.ban_hours || 0;
+}
+
+// The most severe step whose threshold lies in (before, after]
+function crossedStep(
+  steps: EscalationStep[],
+  before: Record<number, number>,
+  after: Record<number, number>
+): EscalationStep | null {
+  const crossed = steps.filter(step =>
+    before[step.window_days] < step.warning_count && after[step.window_days] >= step.warning_count
+  );
+  return crossed.sort((a, b) => severity(b) - severity(a))[0] || null;
+}
+
+// An automatic ban is skipped when the user already has one lasting at least as long
+async function outlastingBan(userId: number, step: EscalationStep, tx: Prisma.TransactionClient = db) {
+  const now = new Date();
+  const bans = await tx.ban.findMany({
+    where: {
+      user_id: userId,
+      is_active: true,
+      OR: [{ is_permanent: true }, { expires_at: null }, { expires_at: { gt: now } }]
+    }
+  });
+
+  const until = step.is_permanent ? null : now.getTime() + (step.ban_hours || 0) * 60 * 60 * 1000;
+  return bans.find(ban => ban.is_permanent || !ban.expires_at || (until !== null && ban.expires_at.getTime() >= until)) || null;
+}
+
+// What the user's next warning would trigger
+export async function previewNextWarning(userId: number): Promise<EscalationPreview> {
+  await expireWarnings(userId);
+  const steps = await loadEscalationLadder();
+  const before = await countWarningsByWindow(userId, steps);
+  const after = Object.fromEntries(Object.entries(before).map(([days, count]) => [days, count + 1]));
+
+  const step = isEscalationEnabled() ? crossedStep(steps, before, after) : null;
+  const existingBan = step ? await outlastingBan(userId, step) : null;
+
+  return {
+    enabled: isEscalationEnabled(),
+    active_warnings: before,
+    next_sanction: step,
+    skipped_reason: existingBan ? 'User already has a ban lasting at least as long' : null,
+    ladder: steps
+  };
+}
+
+export interface WarningInput {
+  user_id: number;
+  warned_by: number;
+  reason: string;
+  description: string | null;
+  expires_at: Date | null;
+}
+
+// Creates a warning and, when it crosses a step of the ladder, the automatic ban. Both are
+// written in one transaction under a lock on the user's row. Side effects of the ban are
+// left to announceEscalation, to run once the transaction has committed.
+export async function issueWarning(input: WarningInput) {
+  const steps = isEscalationEnabled() ? await loadEscalationLadder() : [];
+
+  return db.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT 1 FROM users WHERE anilist_user_id = ${input.user_id} FOR UPDATE`;
+
+    // Decayed warnings stop counting before the new one is added
+    await expireWarnings(input.user_id, tx);
+    const before = await countWarningsByWindow(input.user_id, steps, tx);
+
+    const warning = await tx.warning.create({ data: input });
+    await tx.user.update({
+      where: { anilist_user_id: input.user_id },
+      data: { warning_count: { increment: 1 } }
+    });
+
+    // The new warning falls inside every window
+    const after = Object.fromEntries(Object.entries(before).map(([days, count]) => [days, count + 1]));
+    const step = crossedStep(steps, before, after);
+    if (!step || await outlastingBan(input.user_id, step, tx)) {
+      return { warning, escalation: null };
+    }
+
+    // The ban is issued in the name of the moderator whose warning triggered it
+    const ban = await tx.ban.create({
+      data: {
+        user_id: input.user_id,
+        banned_by: input.warned_by,
+        reason: `Automatic ban: ${step.name}`,
+        duration_hours: step.is_permanent ? null : step.ban_hours,
+        is_permanent: step.is_permanent,
+        expires_at: step.is_permanent ? null : new Date(Date.now() + (step.ban_hours || 0) * 60 * 60 * 1000),
+        escalation_policy_id: step.id
+      }
+    });
+    await restoreBanState(input.user_id, tx);
+
+    return { warning, escalation: { step, ban, active_warnings: after[step.window_days] } };
+  });
+}
+
+export type Escalation = NonNullable<Awaited<ReturnType<typeof issueWarning>>['escalation']>;
+
+// Audits and announces an automatic ban created by issueWarning
+export async function announceEscalation(
+  request: NextRequest,
+  warning: { id: string; user_id: number; warned_by: number },
+  { step, ban, active_warnings }: Escalation
+) {
+  await db.auditLog.create({
+    data: {
+      user_id: warning.user_id,
+      action: 'AUTO_BAN_ESCALATION',
+      target_type: 'user',
+      target_id: String(warning.user_id),
+      details: {
+        automated: true,
+        ban_id: ban.id,
+        escalation_policy_id: step.id,
+        escalation_policy: step.id ? step.name : `default: ${step.name}`,
+        warning_id: warning.id,
+        warned_by: warning.warned_by,
+        active_warnings,
+        window_days: step.window_days,
+        is_permanent: step.is_permanent,
+        expires_at: ban.expires_at
+      },
+      ip_address: getClientIp(request),
+      user_agent: request.headers.get('user-agent')
+    }
+  });
+
+  await notifyModeration(warning.user_id, warning.warned_by,
+    ban.expires_at ? `You are banned until ${ban.expires_at.toISOString()}` : 'You are permanently banned',
+    `${ban.reason}. You can appeal this ban.`, {
+      ban_id: ban.id,
+      expires_at: ban.expires_at,
+      escalation_policy_id: step.id,
+      action: 'ban'
+    });
+
+  await publishEvent('user_ban', null, {
+    user_id: warning.user_id,
+    is_permanent: ban.is_permanent,
+    expires_at: ban.expires_at
+  });
+
+  await revokeUserSessions(warning.user_id);
+
+  await enqueueWebhookEvent('user.banned', {
+    ban_id: ban.id,
+    user_id: warning.user_id,
+    banned_by: warning.warned_by,
+    reason: ban.reason,
+    is_permanent: ban.is_permanent,
+    expires_at: ban.expires_at,
+    escalation_policy_id: step.id
+  });
+}
+
+// Policy fields an admin can set through the API
+export type EscalationPolicyInput = Omit<
+  Prisma.EscalationPolicyUncheckedCreateInput,
+  'id' | 'created_by' | 'updated_by' | 'created_at' | 'updated_at' | 'bans'
+>;
+
+// Validates an admin API body for an escalation policy. Returns the fields to write or an error.
+export function parseEscalationPolicyInput(body: any, partial: false): { data: EscalationPolicyInput } | { error: string };
+export function parseEscalationPolicyInput(body: any, partial: true): { data: Partial<EscalationPolicyInput> } | { error: string };
+export function parseEscalationPolicyInput(body: any, partial: boolean): { data: Record<string, any> } | { error: string } {
+  const data: Record<string, any> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+      return { error: 'name is required (max 100 characters)' };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (!partial || body.warning_count !== undefined) {
+    if (!Number.isInteger(body.warning_count) || body.warning_count < 1) {
+      return { error: 'warning_count must be a positive integer' };
+    }
+    data.warning_count = body.warning_count;
+  }
+
+  if (body.window_days !== undefined) {
+    if (!Number.isInteger(body.window_days) || body.window_days < 1 || body.window_days > 3650) {
+      return { error: 'window_days must be an integer between 1 and 3650' };
+    }
+    data.window_days = body.window_days;
+  }
+
+  if (body.is_permanent !== undefined) {
+    if (typeof body.is_permanent !== 'boolean') return { error: 'is_permanent must be a boolean' };
+    data.is_permanent = body.is_permanent;
+  }
+
+  if (body.ban_hours !== undefined) {
+    if (body.ban_hours !== null && (!Number.isInteger(body.ban_hours) || body.ban_hours < 1)) {
+      return { error: 'ban_hours must be a positive integer or null' };
+    }
+    data.ban_hours = body.ban_hours;
+  }
+
+  // A step bans either permanently or for ban_hours
+  if (data.is_permanent === true) {
+    data.ban_hours = null;
+  } else if (!partial && !data.ban_hours) {
+    return { error: 'ban_hours is required unless is_permanent is true' };
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') return { error: 'is_active must be a boolean' };
+    data.is_active = body.is_active;
+  }
+
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' ? body.description.slice(0, 200) : null;
+  }
+
+  return { data };
+}
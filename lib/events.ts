@@ -0,0 +1,116 @@
+import { EventEmitter } from 'events';
+import { MediaType } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { WebSocketMessage } from '@/lib/types';
+
+// Live comment updates. Routes publish events after their writes; every event is stored in
+// comment_events (so reconnecting clients can resume from Last-Event-ID) and then emitted on
+// an in-process bus that the SSE stream subscribes to. No external broker is involved, so
+// only clients connected to the same server instance receive live events; the rest catch
+// up from the log when they reconnect.
+
+export type CommentEventType = WebSocketMessage['type'];
+
+export interface CommentEventScope {
+  media_id: number;
+  media_type: string;
+}
+
+export interface CommentEventMessage extends WebSocketMessage {
+  id: number;
+  media_id: number | null;
+  media_type: string | null;
+}
+
+const EVENT_RETENTION_HOURS = 24;
+const PRUNE_EVERY_EVENTS = 500;
+export const MAX_REPLAYED_EVENTS = 500;
+
+const globalForEvents = globalThis as unknown as {
+  commentEventBus: EventEmitter | undefined;
+};
+
+// Kept on globalThis so hot reloads in development do not orphan subscribers
+function getEventBus(): EventEmitter {
+  if (!globalForEvents.commentEventBus) {
+    globalForEvents.commentEventBus = new EventEmitter();
+    globalForEvents.commentEventBus.setMaxListeners(0);
+  }
+  return globalForEvents.commentEventBus;
+}
+
+function toMessage(row: any): CommentEventMessage {
+  return {
+    id: row.id,
+    type: row.type,
+    media_id: row.media_id,
+    media_type: row.media_type,
+    data: row.data,
+    timestamp: row.created_at
+  };
+}
+
+// A null scope reaches every media page (bans, role changes)
+export async function publishEvent(
+  type: CommentEventType,
+  scope: CommentEventScope | null,
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    const row = await db.commentEvent.create({
+      data: {
+        type,
+        media_id: scope?.media_id ?? null,
+        media_type: (scope?.media_type as MediaType) ?? null,
+        data
+      }
+    });
+
+    if (row.id % PRUNE_EVERY_EVENTS === 0) {
+      await pruneEvents();
+    }
+
+    getEventBus().emit('event', toMessage(row));
+  } catch (error) {
+    // Live updates are best effort and must never fail the write that triggered them
+    console.error('Publish event failed:', error);
+  }
+}
+
+export function subscribeToEvents(listener: (event: CommentEventMessage) => void): () => void {
+  const bus = getEventBus();
+  bus.on('event', listener);
+  return () => {
+    bus.off('event', listener);
+  };
+}
+
+export function matchesScope(event: CommentEventMessage, scope: CommentEventScope): boolean {
+  if (event.media_id === null) return true;
+  return event.media_id === scope.media_id && event.media_type === scope.media_type;
+}
+
+// Events after lastEventId for a media page, oldest first
+export async function getEventsSince(lastEventId: number, scope: CommentEventScope): Promise<CommentEventMessage[]> {
+  const rows = await db.commentEvent.findMany({
+    where: {
+      id: { gt: lastEventId },
+      OR: [
+        { media_id: scope.media_id, media_type: scope.media_type as MediaType },
+        { media_id: null }
+      ]
+    },
+    orderBy: { id: 'asc' },
+    take: MAX_REPLAYED_EVENTS
+  });
+
+  return rows.map(toMessage);
+}
+
+async function pruneEvents(): Promise<number> {
+  const cutoff = new Date(Date.now() - EVENT_RETENTION_HOURS * 60 * 60 * 1000);
+  const result = await db.commentEvent.deleteMany({
+    where: { created_at: { lt: cutoff } }
+  });
+  return result.count;
+}
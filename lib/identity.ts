@@ -0,0 +1,182 @@
+import { IdentityProfile } from '@/lib/types';
+
+// Identity providers turn a bearer token into a normalized profile. Which provider handles a
+// token is chosen by an optional "<provider>:" prefix (e.g. "myanimelist:eyJ..."); bare tokens
+// go to IDENTITY_PROVIDER, which defaults to AniList.
+//
+// IDENTITY_PROVIDER=mock enables a deterministic offline provider for tests and development.
+// Without it, "mock:" tokens are rejected like any other invalid token, and they are always
+// refused when NODE_ENV is production.
+
+export type IdentityProviderName = 'anilist' | 'myanimelist' | 'mock';
+
+export interface IdentityProvider {
+  name: IdentityProviderName;
+  verifyToken(token: string): Promise<IdentityProfile>;
+}
+
+// Thrown when the provider definitively rejected the token; anything else (outages, the
+// provider's own rate limiting) is transient and must not be negatively cached
+export class InvalidIdentityTokenError extends Error {}
+
+const anilistProvider: IdentityProvider = {
+  name: 'anilist',
+  async verifyToken(token: string): Promise<IdentityProfile> {
+    const response = await fetch('https://graphql.anilist.co', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'AnymeX-Comments'
+      },
+      body: JSON.stringify({
+        query: `
+          query {
+            Viewer {
+              id
+              name
+              avatar {
+                large
+                medium
+              }
+              moderatorStatus
+            }
+          }
+        `
+      })
+    });
+
+    if (response.status === 400 || response.status === 401) {
+      throw new InvalidIdentityTokenError(`AniList API error: ${response.status}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`AniList API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.errors) {
+      throw new InvalidIdentityTokenError(`AniList GraphQL error: ${data.errors[0].message}`);
+    }
+
+    const user = data.data.Viewer;
+    if (!user || !user.id) {
+      throw new InvalidIdentityTokenError('Invalid user data from AniList');
+    }
+
+    return {
+      provider: 'anilist',
+      external_id: String(user.id),
+      anilist_user_id: user.id,
+      username: user.name,
+      avatar_url: user.avatar?.large || user.avatar?.medium || null,
+      moderator_status: user.moderatorStatus || null
+    };
+  }
+};
+
+const myAnimeListProvider: IdentityProvider = {
+  name: 'myanimelist',
+  async verifyToken(token: string): Promise<IdentityProfile> {
+    const response = await fetch('https://api.myanimelist.net/v2/users/@me', {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': 'AnymeX-Comments'
+      }
+    });
+
+    if (response.status === 400 || response.status === 401 || response.status === 403) {
+      throw new InvalidIdentityTokenError(`MyAnimeList API error: ${response.status}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`MyAnimeList API error: ${response.status}`);
+    }
+
+    const user = await response.json();
+    if (!user || !user.id || !user.name) {
+      throw new InvalidIdentityTokenError('Invalid user data from MyAnimeList');
+    }
+
+    // MyAnimeList has no site moderator status to seed roles from
+    return {
+      provider: 'myanimelist',
+      external_id: String(user.id),
+      username: user.name,
+      avatar_url: user.picture || null,
+      moderator_status: null
+    };
+  }
+};
+
+export function isMockIdentityEnabled(): boolean {
+  return process.env.IDENTITY_PROVIDER === 'mock' && process.env.NODE_ENV !== 'production';
+}
+
+// Mock tokens are "<id>", "<id>:<username>" or "<id>:<username>:<MODERATOR|ADMIN>". The same
+// token always yields the same profile. Mock accounts are keyed by provider and external id
+// like MyAnimeList ones, so they get internal ids of their own and can never sign in as the
+// AniList account with the same number (SUPER_ADMIN_IDS entries need the "mock:<id>" form).
+const mockProvider: IdentityProvider = {
+  name: 'mock',
+  async verifyToken(token: string): Promise<IdentityProfile> {
+    if (!isMockIdentityEnabled()) {
+      throw new InvalidIdentityTokenError('The mock identity provider is not enabled');
+    }
+
+    const [idPart, username, moderatorStatus] = token.split(':');
+    const id = Number(idPart);
+
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new InvalidIdentityTokenError('Mock tokens must start with a positive integer id');
+    }
+
+    if (moderatorStatus && moderatorStatus !== 'MODERATOR' && moderatorStatus !== 'ADMIN') {
+      throw new InvalidIdentityTokenError('Mock moderator status must be MODERATOR or ADMIN');
+    }
+
+    return {
+      provider: 'mock',
+      external_id: String(id),
+      username: username || `mock_user_${id}`,
+      avatar_url: null,
+      moderator_status: moderatorStatus || null
+    };
+  }
+};
+
+const PROVIDERS: Record<IdentityProviderName, IdentityProvider> = {
+  anilist: anilistProvider,
+  myanimelist: myAnimeListProvider,
+  mock: mockProvider
+};
+
+export function isIdentityProviderName(value: unknown): value is IdentityProviderName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+export function getDefaultIdentityProvider(): IdentityProvider {
+  const configured = process.env.IDENTITY_PROVIDER || 'anilist';
+  if (!isIdentityProviderName(configured)) {
+    throw new Error(`Unknown IDENTITY_PROVIDER: ${configured}`);
+  }
+  return PROVIDERS[configured];
+}
+
+// Splits an optional provider prefix off the token
+export function resolveIdentityProvider(token: string): { provider: IdentityProvider; token: string } {
+  const separator = token.indexOf(':');
+  if (separator > 0) {
+    const prefix = token.slice(0, separator);
+    if (isIdentityProviderName(prefix)) {
+      return { provider: PROVIDERS[prefix], token: token.slice(separator + 1) };
+    }
+  }
+  return { provider: getDefaultIdentityProvider(), token };
+}
+
+// Stable key for a provider account, used to index cached verifications
+export function identityKey(profile: { provider: string; external_id: string }): string {
+  return `${profile.provider}:${profile.external_id}`;
+}
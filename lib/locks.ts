@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { MediaType, Role } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { getRateLimitStore } from '@/lib/rate-limit';
+import { ApiResponse, PostingRestriction } from '@/lib/types';
+
+// Moderator posting restrictions, enforced by POST /api/comments:
+//   - thread lock: no new replies under a locked root comment (Comment.is_locked)
+//   - media lock: no new comments anywhere on the media page (MediaSettings.is_locked)
+//   - slow mode: one comment per slow_mode_seconds per user on the media page, counted in a
+//     rate limit bucket (lib/rate-limit.ts) so concurrent posts cannot both get through
+// Every restriction can carry an expiry and simply stops applying once it has passed.
+// Moderators and above are not restricted.
+
+export const MAX_SLOW_MODE_SECONDS = 24 * 60 * 60;
+
+// Thrown by enforcePostingRestrictions so POST /api/comments can explain what blocked the comment
+export class PostingRestrictedError extends Error {
+  readonly restriction: PostingRestriction;
+
+  constructor(restriction: PostingRestriction) {
+    super(restrictionMessage(restriction));
+    this.name = 'PostingRestrictedError';
+    this.restriction = restriction;
+  }
+}
+
+function restrictionMessage(restriction: PostingRestriction): string {
+  const until = restriction.expires_at ? ` until ${restriction.expires_at.toISOString()}` : '';
+  switch (restriction.type) {
+    case 'thread_locked':
+      return `This thread is locked${until}. No new replies can be posted.`;
+    case 'media_locked':
+      return `Comments on this page are locked${until}.`;
+    case 'slow_mode':
+      return `Slow mode is on: one comment every ${restriction.slow_mode_seconds} seconds. Try again in ${restriction.retry_after} seconds.`;
+  }
+}
+
+export function postingRestrictedResponse(error: PostingRestrictedError) {
+  const { restriction } = error;
+  return NextResponse.json<ApiResponse<{ restriction: PostingRestriction }>>({
+    success: false,
+    error: error.message,
+    data: { restriction }
+  }, restriction.type === 'slow_mode'
+    ? { status: 429, headers: { 'Retry-After': String(restriction.retry_after) } }
+    : { status: 403 });
+}
+
+export function isRestrictionLive(active: boolean, expires: Date | null): boolean {
+  return active && (!expires || expires > new Date());
+}
+
+export function isSlowModeLive(settings: { slow_mode_seconds: number | null; slow_mode_expires: Date | null } | null): boolean {
+  return !!settings?.slow_mode_seconds && isRestrictionLive(true, settings.slow_mode_expires);
+}
+
+export function isRestrictionExempt(user: { role: Role }): boolean {
+  return user.role === Role.MODERATOR || user.role === Role.ADMIN || user.role === Role.SUPER_ADMIN;
+}
+
+// Expiry for a restriction set now: null (no duration) lasts until lifted, undefined means
+// the duration is invalid
+export function restrictionExpiresAt(durationMinutes: unknown): Date | null | undefined {
+  if (durationMinutes === undefined || durationMinutes === null) return null;
+  if (!Number.isInteger(durationMinutes) || (durationMinutes as number) < 1) return undefined;
+  return new Date(Date.now() + (durationMinutes as number) * 60 * 1000);
+}
+
+export async function getMediaSettings(mediaId: number, mediaType: MediaType) {
+  return db.mediaSettings.findUnique({
+    where: { media_id_media_type: { media_id: mediaId, media_type: mediaType } }
+  });
+}
+
+// Throws PostingRestrictedError when the user may not post this comment right now
+export async function enforcePostingRestrictions(
+  user: { anilist_user_id: number; role: Role },
+  target: { media_id: number; media_type: MediaType; root_comment_id: number | null }
+) {
+  if (isRestrictionExempt(user)) return;
+
+  const settings = await getMediaSettings(target.media_id, target.media_type);
+
+  if (settings && isRestrictionLive(settings.is_locked, settings.lock_expires)) {
+    throw new PostingRestrictedError({
+      type: 'media_locked',
+      reason: settings.lock_reason,
+      expires_at: settings.lock_expires
+    });
+  }
+
+  if (target.root_comment_id) {
+    const root = await db.comment.findUnique({
+      where: { id: target.root_comment_id },
+      select: { is_locked: true, lock_expires: true, lock_reason: true }
+    });
+    if (root && isRestrictionLive(root.is_locked, root.lock_expires)) {
+      throw new PostingRestrictedError({
+        type: 'thread_locked',
+        reason: root.lock_reason,
+        expires_at: root.lock_expires
+      });
+    }
+  }
+
+  if (settings && isSlowModeLive(settings)) {
+    // A bucket that holds exactly one comment and refills after slow_mode_seconds
+    const slowModeMs = settings.slow_mode_seconds! * 1000;
+    const now = Date.now();
+    const { allowed, tat } = await getRateLimitStore().consume(
+      `slowmode:${target.media_type}:${target.media_id}:${user.anilist_user_id}`,
+      now,
+      slowModeMs,
+      slowModeMs
+    );
+
+    if (!allowed) {
+      throw new PostingRestrictedError({
+        type: 'slow_mode',
+        reason: null,
+        expires_at: settings.slow_mode_expires,
+        slow_mode_seconds: settings.slow_mode_seconds!,
+        retry_after: Math.max(Math.ceil((tat - now) / 1000), 1)
+      });
+    }
+  }
+}
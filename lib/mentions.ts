@@ -0,0 +1,100 @@
+import { db } from '@/app/api/db/connection';
+import { createNotifications, previewContent } from '@/lib/notifications';
+import { CommentMention } from '@/lib/types';
+
+// AniList usernames are 2-20 letters, digits or underscores. The mention must not be glued
+// to a preceding word, so e-mail addresses and "a@b" are not treated as mentions.
+const MENTION_PATTERN = /(^|[^A-Za-z0-9_@])@([A-Za-z0-9_]{2,20})(?![A-Za-z0-9_])/g;
+
+// Comments mentioning more users than this are rejected outright
+export const MAX_MENTIONS_PER_COMMENT = 5;
+
+// Unique usernames mentioned in the content, in order of first appearance
+export function parseMentionUsernames(content: string): string[] {
+  const seen = new Set<string>();
+  const usernames: string[] = [];
+
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    const username = match[2];
+    if (seen.has(username.toLowerCase())) continue;
+    seen.add(username.toLowerCase());
+    usernames.push(username);
+  }
+
+  return usernames;
+}
+
+// Resolves @username mentions in the content, plus user IDs supplied explicitly by the
+// client (e.g. from a mention picker), against the users table. Unknown names are ignored.
+export async function resolveMentions(content: string, explicitIds: number[] = []): Promise<CommentMention[]> {
+  const usernames = parseMentionUsernames(content);
+  const ids = explicitIds.filter(id => Number.isInteger(id));
+  if (usernames.length === 0 && ids.length === 0) return [];
+
+  const users = await db.user.findMany({
+    where: {
+      OR: [
+        ...usernames.map(username => ({ username: { equals: username, mode: 'insensitive' as const } })),
+        ...(ids.length > 0 ? [{ anilist_user_id: { in: ids } }] : [])
+      ]
+    },
+    select: { anilist_user_id: true, username: true }
+  });
+
+  const mentioned = new Map<number, CommentMention>();
+  users.forEach(user => mentioned.set(user.anilist_user_id, {
+    user_id: user.anilist_user_id,
+    username: user.username
+  }));
+
+  return Array.from(mentioned.values());
+}
+
+// Replaces the stored mentions of a comment and returns the users that were not mentioned
+// before, so edits only notify newly mentioned users
+export async function syncCommentMentions(commentId: number, mentions: CommentMention[]): Promise<number[]> {
+  const userIds = mentions.map(mention => mention.user_id);
+
+  const existing = await db.commentMention.findMany({
+    where: { comment_id: commentId },
+    select: { mentioned_user_id: true }
+  });
+  const existingIds = new Set(existing.map(mention => mention.mentioned_user_id));
+  const added = userIds.filter(id => !existingIds.has(id));
+
+  await db.commentMention.deleteMany({
+    where: { comment_id: commentId, mentioned_user_id: { notIn: userIds } }
+  });
+
+  if (added.length > 0) {
+    await db.commentMention.createMany({
+      data: added.map(id => ({ comment_id: commentId, mentioned_user_id: id })),
+      skipDuplicates: true
+    });
+  }
+
+  return added;
+}
+
+export async function notifyMentionedUsers(
+  comment: { id: number; media_id: number; media_type: string; content: string; anilist_user_id: number },
+  authorName: string,
+  userIds: number[]
+): Promise<number> {
+  return createNotifications(
+    userIds
+      .filter(id => id !== comment.anilist_user_id)
+      .map(id => ({
+        userId: id,
+        type: 'mention' as const,
+        title: `${authorName} mentioned you`,
+        message: previewContent(comment.content),
+        data: {
+          comment_id: comment.id,
+          media_id: comment.media_id,
+          media_type: comment.media_type,
+          mentioned_by: comment.anilist_user_id
+        }
+      }))
+  );
+}
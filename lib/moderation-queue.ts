@@ -0,0 +1,332 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReportCategory, ReportStatus, Role } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { getClientIp } from '@/lib/client-ip';
+import { ApiResponse, ReporterAccuracy } from '@/lib/types';
+
+// Reports are aggregated per comment into a ModerationQueueItem. Every undecided report adds
+// its reporter's weight (see getReporterAccuracy); once an open item reaches REPORT_AUTO_HIDE_THRESHOLD the comment is
+// collapsed behind a notice until a moderator decides. Moderators claim items before working
+// them, and a claim lapses after CLAIM_TTL_MINUTES so abandoned items return to the pool.
+// Resolving or dismissing an item decides every undecided report on the comment at once,
+// recording each ReportStatus transition in ReportStatusChange.
+
+export const CLAIM_TTL_MINUTES = 30;
+export const UNDECIDED_REPORT_STATUSES: ReportStatus[] = [ReportStatus.PENDING, ReportStatus.REVIEWED];
+
+export type QueueDecision = 'RESOLVED' | 'DISMISSED';
+
+export function getAutoHideThreshold(): number {
+  const threshold = parseFloat(process.env.REPORT_AUTO_HIDE_THRESHOLD || '');
+  return threshold > 0 ? threshold : 5;
+}
+
+export const REPORT_CATEGORIES: ReportCategory[] = [
+  ReportCategory.SPAM,
+  ReportCategory.HARASSMENT,
+  ReportCategory.SPOILER,
+  ReportCategory.OFF_TOPIC,
+  ReportCategory.OTHER
+];
+
+// Accepts 'off-topic', 'off_topic', 'Off Topic' and so on
+export function parseReportCategory(value: unknown): ReportCategory | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return (REPORT_CATEGORIES as string[]).includes(normalized) ? normalized as ReportCategory : null;
+}
+
+// Most undecided reports one user may have open at a time, on top of the 'report' rate limit
+export function getMaxOpenReports(): number {
+  const max = parseInt(process.env.REPORT_MAX_OPEN || '');
+  return max > 0 ? max : 20;
+}
+
+// A reporter's accuracy is the share of their decided reports that were upheld (RESOLVED)
+// rather than DISMISSED, smoothed towards 50% so a few decisions cannot swing it far.
+// Regular users' reports weigh 2x their accuracy, between 0.25 and 2, so a new reporter
+// counts 1; staff reports always weigh 3.
+const ACCURACY_PRIOR = 2; // Pseudo-decisions, half of them upheld, added to every history
+const REPORTER_MIN_WEIGHT = 0.25;
+const REPORTER_MAX_WEIGHT = 2;
+const STAFF_REPORT_WEIGHT = 3;
+
+export async function getReporterAccuracy(reporter: { anilist_user_id: number; role: Role }): Promise<ReporterAccuracy> {
+  const counts = await db.report.groupBy({
+    by: ['status'],
+    where: {
+      reporter_user_id: reporter.anilist_user_id,
+      status: { in: [ReportStatus.RESOLVED, ReportStatus.DISMISSED] }
+    },
+    _count: { _all: true }
+  });
+
+  const resolved = counts.find(row => row.status === ReportStatus.RESOLVED)?._count._all ?? 0;
+  const dismissed = counts.find(row => row.status === ReportStatus.DISMISSED)?._count._all ?? 0;
+  const accuracy = (resolved + ACCURACY_PRIOR / 2) / (resolved + dismissed + ACCURACY_PRIOR);
+
+  const weight = reporter.role === Role.USER
+    ? Math.min(Math.max(2 * accuracy, REPORTER_MIN_WEIGHT), REPORTER_MAX_WEIGHT)
+    : STAFF_REPORT_WEIGHT;
+
+  return {
+    resolved,
+    dismissed,
+    accuracy: Math.round(accuracy * 1000) / 1000,
+    weight: Math.round(weight * 100) / 100
+  };
+}
+
+// Thrown when another moderator holds a live claim on the item (also used for appeals)
+export class QueueClaimError extends Error {
+  readonly assigned_to: number;
+  readonly claimed_at: Date;
+
+  constructor(assignedTo: number, claimedAt: Date, message = 'This queue item is claimed by another moderator') {
+    super(message);
+    this.name = 'QueueClaimError';
+    this.assigned_to = assignedTo;
+    this.claimed_at = claimedAt;
+  }
+}
+
+export function queueClaimResponse(error: QueueClaimError) {
+  return NextResponse.json<ApiResponse<{ assigned_to: number; claim_expires_at: Date }>>({
+    success: false,
+    error: error.message,
+    data: {
+      assigned_to: error.assigned_to,
+      claim_expires_at: new Date(error.claimed_at.getTime() + CLAIM_TTL_MINUTES * 60 * 1000)
+    }
+  }, { status: 409 });
+}
+
+export function isClaimLive(item: { assigned_to: number | null; claimed_at: Date | null }): boolean {
+  return item.assigned_to !== null &&
+    item.claimed_at !== null &&
+    Date.now() - item.claimed_at.getTime() < CLAIM_TTL_MINUTES * 60 * 1000;
+}
+
+// Adds a new report to its comment's queue item, reopening a decided item, and collapses the
+// comment when the item crosses the threshold
+export async function addReportToQueue(
+  request: NextRequest,
+  report: { comment_id: number; weight: number }
+) {
+  const weight = report.weight;
+  const now = new Date();
+  const existing = await db.moderationQueueItem.findUnique({
+    where: { comment_id: report.comment_id }
+  });
+
+  const item = existing && existing.status !== 'OPEN'
+    ? await db.moderationQueueItem.update({
+        where: { id: existing.id },
+        data: {
+          status: 'OPEN',
+          report_count: 1,
+          report_weight: weight,
+          auto_hidden: false,
+          assigned_to: null,
+          claimed_at: null,
+          resolved_by: null,
+          resolved_at: null,
+          resolution_note: null,
+          first_reported_at: now,
+          last_reported_at: now
+        }
+      })
+    : await db.moderationQueueItem.upsert({
+        where: { comment_id: report.comment_id },
+        create: {
+          comment_id: report.comment_id,
+          report_count: 1,
+          report_weight: weight,
+          first_reported_at: now,
+          last_reported_at: now
+        },
+        update: {
+          report_count: { increment: 1 },
+          report_weight: { increment: weight },
+          last_reported_at: now
+        }
+      });
+
+  const threshold = getAutoHideThreshold();
+  if (item.auto_hidden || item.report_weight < threshold) {
+    return item;
+  }
+
+  // Only the report that crosses the threshold collapses the comment
+  const { count } = await db.moderationQueueItem.updateMany({
+    where: { id: item.id, auto_hidden: false },
+    data: { auto_hidden: true }
+  });
+  if (count === 0) {
+    return item;
+  }
+
+  const comment = await db.comment.update({
+    where: { id: report.comment_id },
+    data: { is_collapsed: true }
+  });
+
+  await db.auditLog.create({
+    data: {
+      user_id: comment.anilist_user_id,
+      action: 'AUTO_HIDE_REPORTED_COMMENT',
+      target_type: 'comment',
+      target_id: String(comment.id),
+      details: {
+        automated: true,
+        queue_item_id: item.id,
+        report_count: item.report_count,
+        report_weight: item.report_weight,
+        threshold
+      },
+      ip_address: getClientIp(request),
+      user_agent: request.headers.get('user-agent')
+    }
+  });
+
+  return { ...item, auto_hidden: true };
+}
+
+// Claims an item for `assignee`; the claim is refused while another moderator's claim is live
+// unless `force` is set (admins reassigning work). Claiming marks pending reports as REVIEWED.
+export async function claimQueueItem(itemId: string, actorId: number, assignee: number, force = false) {
+  const item = await db.moderationQueueItem.findUnique({ where: { id: itemId } });
+  if (!item) return null;
+
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - CLAIM_TTL_MINUTES * 60 * 1000);
+
+  // Conditional update so two moderators claiming at once cannot both win
+  const { count } = await db.moderationQueueItem.updateMany({
+    where: {
+      id: itemId,
+      status: 'OPEN',
+      ...(force ? {} : {
+        OR: [
+          { assigned_to: null },
+          { assigned_to: assignee },
+          { claimed_at: { lt: staleBefore } }
+        ]
+      })
+    },
+    data: { assigned_to: assignee, claimed_at: now }
+  });
+
+  if (count === 0) {
+    if (item.status !== 'OPEN') return { item, claimed: false };
+    const current = await db.moderationQueueItem.findUnique({ where: { id: itemId } });
+    throw new QueueClaimError(current?.assigned_to ?? item.assigned_to!, current?.claimed_at ?? item.claimed_at!);
+  }
+
+  await transitionReports(item.comment_id, [ReportStatus.PENDING], ReportStatus.REVIEWED, actorId, null);
+
+  return {
+    item: await db.moderationQueueItem.findUnique({ where: { id: itemId } }),
+    claimed: true
+  };
+}
+
+export async function releaseQueueItem(itemId: string) {
+  return db.moderationQueueItem.update({
+    where: { id: itemId },
+    data: { assigned_to: null, claimed_at: null }
+  });
+}
+
+// Moves the comment's reports in `from` to `to`, recording every transition.
+// Returns the number of reports moved.
+async function transitionReports(
+  commentId: number,
+  from: ReportStatus[],
+  to: ReportStatus,
+  actorId: number,
+  note: string | null,
+  tx: any = db
+): Promise<number> {
+  const reports = await tx.report.findMany({
+    where: { comment_id: commentId, status: { in: from } },
+    select: { id: true, status: true }
+  });
+  if (reports.length === 0) return 0;
+
+  await tx.report.updateMany({
+    where: { id: { in: reports.map((report: { id: number }) => report.id) } },
+    data: {
+      status: to,
+      reviewed_by: actorId,
+      ...(note !== null ? { review_note: note } : {})
+    }
+  });
+
+  await tx.reportStatusChange.createMany({
+    data: reports.map((report: { id: number; status: ReportStatus }) => ({
+      report_id: report.id,
+      from_status: report.status,
+      to_status: to,
+      changed_by: actorId,
+      note
+    }))
+  });
+
+  return reports.length;
+}
+
+// Decides every undecided report on the item's comment. Dismissing uncollapses the comment;
+// resolving can also remove it.
+export async function decideQueueItem(
+  itemId: string,
+  actorId: number,
+  decision: QueueDecision,
+  options: { note: string | null; removeComment: boolean }
+) {
+  return db.$transaction(async (tx) => {
+    const item = await tx.moderationQueueItem.findUnique({ where: { id: itemId } });
+    if (!item || item.status !== 'OPEN') return null;
+
+    const reportsUpdated = await transitionReports(
+      item.comment_id,
+      UNDECIDED_REPORT_STATUSES,
+      decision,
+      actorId,
+      options.note,
+      tx
+    );
+
+    const updated = await tx.moderationQueueItem.update({
+      where: { id: itemId },
+      data: {
+        status: decision,
+        report_count: 0,
+        report_weight: 0,
+        assigned_to: null,
+        claimed_at: null,
+        resolved_by: actorId,
+        resolved_at: new Date(),
+        resolution_note: options.note
+      }
+    });
+
+    if (decision === 'DISMISSED') {
+      await tx.comment.update({
+        where: { id: item.comment_id },
+        data: { is_collapsed: false }
+      });
+    } else if (options.removeComment) {
+      await tx.comment.update({
+        where: { id: item.comment_id },
+        data: {
+          is_deleted: true,
+          deleted_by: actorId,
+          delete_reason: options.note || 'Removed after reports'
+        }
+      });
+    }
+
+    return { item: updated, reports_updated: reportsUpdated };
+  });
+}
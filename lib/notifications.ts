@@ -0,0 +1,141 @@
+import { db } from '@/app/api/db/connection';
+import { Notification } from '@/lib/types';
+
+export type NotificationType = Notification['type'];
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['reply', 'vote', 'mention', 'moderation'];
+
+// Upvote counts that earn the author a notification the first time they are reached
+export const VOTE_MILESTONES = [10, 50, 100, 500, 1000];
+
+const PREVIEW_LENGTH = 100;
+
+export interface NotificationInput {
+  userId: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: any;
+}
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === 'string' && (NOTIFICATION_TYPES as string[]).includes(value);
+}
+
+export function previewContent(content: string): string {
+  return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}…` : content;
+}
+
+// Creates the notifications, skipping recipients who muted that type
+export async function createNotifications(inputs: NotificationInput[]): Promise<number> {
+  if (inputs.length === 0) return 0;
+
+  const recipients = await db.user.findMany({
+    where: { anilist_user_id: { in: Array.from(new Set(inputs.map(input => input.userId))) } },
+    select: { anilist_user_id: true, muted_notification_types: true }
+  });
+  const mutedByUser = new Map<number, string[]>();
+  recipients.forEach(recipient => mutedByUser.set(recipient.anilist_user_id, recipient.muted_notification_types));
+
+  const deliverable = inputs.filter(input =>
+    mutedByUser.has(input.userId) && !mutedByUser.get(input.userId)!.includes(input.type)
+  );
+  if (deliverable.length === 0) return 0;
+
+  const result = await db.notification.createMany({
+    data: deliverable.map(input => ({
+      user_id: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      data: input.data ?? undefined
+    }))
+  });
+
+  return result.count;
+}
+
+export async function createNotification(input: NotificationInput): Promise<number> {
+  return createNotifications([input]);
+}
+
+export async function notifyReply(
+  parent: { id: number; anilist_user_id: number },
+  reply: { id: number; media_id: number; media_type: string; content: string; anilist_user_id: number },
+  replierName: string
+): Promise<number> {
+  if (parent.anilist_user_id === reply.anilist_user_id) return 0;
+
+  return createNotification({
+    userId: parent.anilist_user_id,
+    type: 'reply',
+    title: `${replierName} replied to your comment`,
+    message: previewContent(reply.content),
+    data: {
+      comment_id: reply.id,
+      parent_comment_id: parent.id,
+      media_id: reply.media_id,
+      media_type: reply.media_type,
+      replied_by: reply.anilist_user_id
+    }
+  });
+}
+
+// Moderator actions on a user's comment or account (pin, tag, delete, warn, ban)
+export async function notifyModeration(
+  userId: number,
+  actorId: number,
+  title: string,
+  message: string,
+  data: Record<string, any> = {}
+): Promise<number> {
+  if (userId === actorId) return 0;
+
+  return createNotification({
+    userId,
+    type: 'moderation',
+    title,
+    message,
+    data: { ...data, actor_id: actorId }
+  });
+}
+
+// Notifies the author for every milestone crossed upward by this vote. Each milestone is
+// only sent once per comment, so votes toggled around a threshold do not repeat it.
+export async function notifyVoteMilestones(
+  comment: { id: number; media_id: number; media_type: string; anilist_user_id: number },
+  previousUpvotes: number,
+  upvotes: number
+): Promise<number> {
+  const crossed = VOTE_MILESTONES.filter(milestone => previousUpvotes < milestone && upvotes >= milestone);
+  let created = 0;
+
+  for (const milestone of crossed) {
+    const milestoneKey = `${comment.id}:${milestone}`;
+    const alreadySent = await db.notification.findFirst({
+      where: {
+        user_id: comment.anilist_user_id,
+        type: 'vote',
+        data: { path: ['milestone_key'], equals: milestoneKey }
+      },
+      select: { id: true }
+    });
+    if (alreadySent) continue;
+
+    created += await createNotification({
+      userId: comment.anilist_user_id,
+      type: 'vote',
+      title: `Your comment reached ${milestone} upvotes`,
+      message: `Your comment reached ${milestone} upvotes`,
+      data: {
+        comment_id: comment.id,
+        media_id: comment.media_id,
+        media_type: comment.media_type,
+        milestone,
+        milestone_key: milestoneKey
+      }
+    });
+  }
+
+  return created;
+}
@@ -0,0 +1,195 @@
+export type SortDirection = 'asc' | 'desc';
+
+export interface CursorField {
+  field: string;
+  direction: SortDirection;
+  type: 'date' | 'number' | 'string';
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// Every sort ends with a unique column so the ordering is total and cursors never skip or repeat rows
+export const COMMENT_SORTS: Record<string, CursorField[]> = {
+  newest: [
+    { field: 'created_at', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'number' }
+  ],
+  oldest: [
+    { field: 'created_at', direction: 'asc', type: 'date' },
+    { field: 'id', direction: 'asc', type: 'number' }
+  ],
+  top: [
+    { field: 'upvotes', direction: 'desc', type: 'number' },
+    { field: 'created_at', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'number' }
+  ],
+  // Score sorts use the cached columns maintained by lib/scoring.ts
+  hot: [
+    { field: 'hot_score', direction: 'desc', type: 'number' },
+    { field: 'id', direction: 'desc', type: 'number' }
+  ],
+  controversial: [
+    { field: 'controversy_score', direction: 'desc', type: 'number' },
+    { field: 'created_at', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'number' }
+  ],
+  best: [
+    { field: 'best_score', direction: 'desc', type: 'number' },
+    { field: 'created_at', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'number' }
+  ]
+};
+
+// Unknown sort values fall back to the default, as the listing always has
+export function resolveCommentSort(
+  sortBy: string | null,
+  fallback: string = 'newest'
+): { sortKey: string; fields: CursorField[] } {
+  const sortKey = sortBy && Object.prototype.hasOwnProperty.call(COMMENT_SORTS, sortBy) ? sortBy : fallback;
+  return { sortKey, fields: COMMENT_SORTS[sortKey] };
+}
+
+export const REPORT_SORT: CursorField[] = [
+  { field: 'created_at', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'number' }
+];
+
+// Heaviest reported comments first
+export const MODERATION_QUEUE_SORT: CursorField[] = [
+  { field: 'report_weight', direction: 'desc', type: 'number' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+// Oldest appeals first, so none wait indefinitely
+export const APPEAL_SORT: CursorField[] = [
+  { field: 'created_at', direction: 'asc', type: 'date' },
+  { field: 'id', direction: 'asc', type: 'string' }
+];
+
+export const AUDIT_LOG_SORT: CursorField[] = [
+  { field: 'created_at', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+export const NOTIFICATION_SORT: CursorField[] = [
+  { field: 'created_at', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+export const WEBHOOK_DELIVERY_SORT: CursorField[] = [
+  { field: 'created_at', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+export const USER_SORT: CursorField[] = [
+  { field: 'created_at', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' }
+];
+
+export function buildOrderBy(fields: CursorField[]) {
+  return fields.map(f => ({ [f.field]: f.direction }));
+}
+
+// Cursors are opaque to clients: base64url encoded JSON of the sort key and the last row's sort values
+export function encodeCursor(sortKey: string, fields: CursorField[], row: any): string {
+  const values = fields.map(f => {
+    const value = row[f.field];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+  return Buffer.from(JSON.stringify({ k: sortKey, v: values })).toString('base64url');
+}
+
+// Cursor positioned before the first row, for continuations of lists none of which was shown yet
+export function encodeStartCursor(sortKey: string): string {
+  return Buffer.from(JSON.stringify({ k: sortKey, v: [] })).toString('base64url');
+}
+
+// Returns null when the cursor is malformed or was issued for a different sort, and an empty
+// array for a start cursor
+export function decodeCursor(cursor: string, sortKey: string, fields: CursorField[]): any[] | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (payload.k !== sortKey || !Array.isArray(payload.v)) {
+      return null;
+    }
+    if (payload.v.length === 0) {
+      return [];
+    }
+    if (payload.v.length !== fields.length) {
+      return null;
+    }
+
+    const values = fields.map((f, i) => {
+      const value = payload.v[i];
+      if (f.type === 'date') {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) throw new Error('Invalid cursor date');
+        return date;
+      }
+      if (f.type === 'number' && typeof value !== 'number') throw new Error('Invalid cursor number');
+      if (f.type === 'string' && typeof value !== 'string') throw new Error('Invalid cursor string');
+      return value;
+    });
+
+    return values;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Keyset condition selecting rows strictly after the cursor position:
+// (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND c > z) ...
+export function buildCursorWhere(fields: CursorField[], values: any[]) {
+  return {
+    OR: fields.map((f, i) => {
+      const clause: any = {};
+      for (let j = 0; j < i; j++) {
+        clause[fields[j].field] = values[j];
+      }
+      clause[f.field] = { [f.direction === 'desc' ? 'lt' : 'gt']: values[i] };
+      return clause;
+    })
+  };
+}
+
+export function applyCursor(whereClause: any, fields: CursorField[], values: any[] | null) {
+  if (!values || values.length === 0) return whereClause;
+  return { AND: [whereClause, buildCursorWhere(fields, values)] };
+}
+
+// Rows must be fetched with take: limit + 1 so the extra row tells us whether another page exists
+export function toCursorPage<T>(rows: T[], limit: number, sortKey: string, fields: CursorField[]): CursorPage<T> {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(sortKey, fields, last) : null
+  };
+}
+
+// In-memory equivalent of buildOrderBy, for rows assembled outside of a single ordered query
+export function compareBySort(fields: CursorField[]) {
+  return (a: any, b: any): number => {
+    for (const f of fields) {
+      const left = a[f.field] instanceof Date ? a[f.field].getTime() : a[f.field];
+      const right = b[f.field] instanceof Date ? b[f.field].getTime() : b[f.field];
+      if (left === right) continue;
+      const ascending = left < right ? -1 : 1;
+      return f.direction === 'asc' ? ascending : -ascending;
+    }
+    return 0;
+  };
+}
+
+// Raw SQL ORDER BY for raw queries; fields only ever come from the constants above
+export function buildSqlOrderBy(fields: CursorField[], alias?: string): string {
+  const prefix = alias ? `${alias}.` : '';
+  return fields.map(f => `${prefix}${f.field} ${f.direction.toUpperCase()}`).join(', ');
+}
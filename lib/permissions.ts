@@ -237,7 +237,8 @@ export function canVoteOnOwnComment(user: User): boolean {
 }
 
 export function canReportComment(user: User): boolean {
-  return getUserRole(user) !== Role.USER; // Only mods and above can report
+  // Every signed-in user can report; banned users are rejected before this check
+  return !isBanned(user);
 }
 
 export function hasOverridePermission(user: User): boolean {
@@ -253,7 +254,7 @@ export function isBanned(user: User): boolean {
   return new Date() < user.ban_expires;
 }
 
-export function isShadowBanned(user: User): boolean {
+export function isShadowBanned(user: Pick<User, 'shadow_banned' | 'shadow_ban_expires'>): boolean {
   if (!user.shadow_banned) return false;
   
   // Check if shadow ban has expired
@@ -269,6 +270,36 @@ export function canViewVotes(user: User): boolean {
   return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN || userRole === Role.MODERATOR;
 }
 
+export function canManageAutomod(user: User): boolean {
+  const userRole = getUserRole(user);
+  return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN;
+}
+
+export function canReviewHeldComments(user: User): boolean {
+  const userRole = getUserRole(user);
+  return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN || userRole === Role.MODERATOR;
+}
+
+export function canWorkModerationQueue(user: User): boolean {
+  const userRole = getUserRole(user);
+  return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN || userRole === Role.MODERATOR;
+}
+
+export function canLockDiscussions(user: User): boolean {
+  const userRole = getUserRole(user);
+  return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN || userRole === Role.MODERATOR;
+}
+
+export function canManageEscalationPolicies(user: User): boolean {
+  const userRole = getUserRole(user);
+  return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN;
+}
+
+export function canDecideAppeals(user: User): boolean {
+  const userRole = getUserRole(user);
+  return userRole === Role.SUPER_ADMIN || userRole === Role.ADMIN;
+}
+
 export function isSuperAdmin(user: User): boolean {
   return getUserRole(user) === Role.SUPER_ADMIN;
 }
@@ -0,0 +1,228 @@
+import { Prisma, Role } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { ActionType, EffectiveRateLimit, RateLimitConfig } from '@/lib/types';
+
+// Which rate limit applies to a user, in order of precedence:
+//   1. an unexpired RateLimitOverride for the user and action, then one for every action ("*")
+//   2. the highest-priority RateLimitPolicy whose conditions (role, account age, reputation)
+//      all match; on equal priority the rule with more conditions wins
+//   3. the RATE_LIMITS defaults below
+// Reputation is the net score (upvotes - downvotes) of the user's live comments.
+
+export const RATE_LIMITS: Record<ActionType, RateLimitConfig> = {
+  comment: { max: 5, window: 60 }, // 5 comments per hour
+  vote: { max: 20, window: 60 },    // 20 votes per hour
+  delete: { max: 10, window: 60 },   // 10 deletions per hour
+  edit: { max: 15, window: 60 },     // 15 edits per hour
+  report: { max: 10, window: 60 },   // 10 reports per hour
+  ban: { max: 5, window: 1440 },     // 5 bans per day
+  warn: { max: 20, window: 60 },     // 20 warnings per hour
+  mention: { max: 10, window: 60 }   // 10 comments with mentions per hour
+};
+
+export const RATE_LIMIT_ACTIONS = Object.keys(RATE_LIMITS) as ActionType[];
+export const ALL_ACTIONS = '*';
+
+export interface RateLimitSubject {
+  anilist_user_id: number;
+  role: Role;
+  created_at: Date;
+}
+
+const POLICY_CACHE_TTL_MS = 30 * 1000;
+
+const globalForPolicies = globalThis as unknown as {
+  rateLimitPolicyCache: { policies: any[]; loaded_at: number } | undefined;
+};
+
+export function isRateLimitAction(value: unknown): value is ActionType {
+  return typeof value === 'string' && (RATE_LIMIT_ACTIONS as string[]).includes(value);
+}
+
+// Policies change rarely and are read on every limited request, so they are cached briefly.
+// Writes through the admin API clear the cache of the instance that handled them.
+async function loadPolicies(): Promise<any[]> {
+  const cached = globalForPolicies.rateLimitPolicyCache;
+  if (cached && Date.now() - cached.loaded_at < POLICY_CACHE_TTL_MS) {
+    return cached.policies;
+  }
+
+  const policies = await db.rateLimitPolicy.findMany({
+    orderBy: [{ priority: 'desc' }, { created_at: 'asc' }]
+  });
+  globalForPolicies.rateLimitPolicyCache = { policies, loaded_at: Date.now() };
+  return policies;
+}
+
+export function clearRateLimitPolicyCache() {
+  globalForPolicies.rateLimitPolicyCache = undefined;
+}
+
+export async function getUserReputation(userId: number): Promise<number> {
+  const result = await db.comment.aggregate({
+    where: { anilist_user_id: userId, is_deleted: false },
+    _sum: { upvotes: true, downvotes: true }
+  });
+  return (result._sum.upvotes || 0) - (result._sum.downvotes || 0);
+}
+
+function conditionCount(policy: any): number {
+  return ['role', 'min_account_age_days', 'max_account_age_days', 'min_reputation', 'max_reputation']
+    .filter(field => policy[field] !== null).length;
+}
+
+function matchesPolicy(policy: any, subject: RateLimitSubject, accountAgeDays: number, reputation: number | null): boolean {
+  if (policy.role !== null && policy.role !== subject.role) return false;
+  if (policy.min_account_age_days !== null && accountAgeDays < policy.min_account_age_days) return false;
+  if (policy.max_account_age_days !== null && accountAgeDays > policy.max_account_age_days) return false;
+  if (policy.min_reputation !== null && (reputation === null || reputation < policy.min_reputation)) return false;
+  if (policy.max_reputation !== null && (reputation === null || reputation > policy.max_reputation)) return false;
+  return true;
+}
+
+function usesReputation(policy: any): boolean {
+  return policy.min_reputation !== null || policy.max_reputation !== null;
+}
+
+// Resolves the effective limit for every action at once, e.g. for /api/auth/me
+export async function resolveRateLimits(
+  subject: RateLimitSubject,
+  actions: ActionType[] = RATE_LIMIT_ACTIONS
+): Promise<Record<string, EffectiveRateLimit>> {
+  const now = new Date();
+  const [policies, overrides] = await Promise.all([
+    loadPolicies(),
+    db.rateLimitOverride.findMany({
+      where: {
+        user_id: subject.anilist_user_id,
+        action_type: { in: [...actions, ALL_ACTIONS] },
+        OR: [{ expires_at: null }, { expires_at: { gt: now } }]
+      }
+    })
+  ]);
+
+  const candidatePolicies = policies.filter(policy => actions.includes(policy.action_type));
+
+  // The reputation query only runs when a relevant policy depends on it
+  const reputation = candidatePolicies.some(usesReputation)
+    ? await getUserReputation(subject.anilist_user_id)
+    : null;
+  const accountAgeDays = Math.floor((now.getTime() - new Date(subject.created_at).getTime()) / (24 * 60 * 60 * 1000));
+
+  const effective: Record<string, EffectiveRateLimit> = {};
+
+  for (const action of actions) {
+    const defaults = RATE_LIMITS[action];
+    const override = overrides.find(o => o.action_type === action) || overrides.find(o => o.action_type === ALL_ACTIONS);
+
+    if (override) {
+      effective[action] = {
+        action,
+        max: override.max ?? defaults.max,
+        window: override.window ?? defaults.window,
+        exempt: override.exempt,
+        source: 'override',
+        source_id: override.id
+      };
+      continue;
+    }
+
+    const policy = candidatePolicies
+      .filter(p => p.action_type === action && matchesPolicy(p, subject, accountAgeDays, reputation))
+      .sort((a, b) => b.priority - a.priority || conditionCount(b) - conditionCount(a))[0];
+
+    effective[action] = policy
+      ? {
+          action,
+          max: policy.max,
+          window: policy.window,
+          exempt: policy.exempt,
+          source: 'policy',
+          source_id: policy.id
+        }
+      : {
+          action,
+          ...defaults,
+          exempt: false,
+          source: 'default',
+          source_id: null
+        };
+  }
+
+  return effective;
+}
+
+export async function resolveRateLimit(subject: RateLimitSubject, action: ActionType): Promise<EffectiveRateLimit> {
+  const effective = await resolveRateLimits(subject, [action]);
+  return effective[action];
+}
+
+// Shared validation for policy and override payloads; returns an error message or null
+export function validateLimitValues(max: unknown, window: unknown, required: boolean): string | null {
+  if (required || max !== undefined) {
+    if (typeof max !== 'number' || !Number.isInteger(max) || max < 1 || max > 10000) {
+      return 'max must be an integer between 1 and 10000';
+    }
+  }
+  if (required || window !== undefined) {
+    if (typeof window !== 'number' || !Number.isInteger(window) || window < 1 || window > 10080) {
+      return 'window must be a number of minutes between 1 and 10080';
+    }
+  }
+  return null;
+}
+
+const POLICY_CONDITION_FIELDS = ['min_account_age_days', 'max_account_age_days', 'min_reputation', 'max_reputation'] as const;
+
+// Policy fields an admin can set through the API
+export type RateLimitPolicyInput = Omit<Prisma.RateLimitPolicyUncheckedCreateInput, 'id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+// Validates a policy body for create (partial = false) or update (partial = true)
+export function parsePolicyInput(body: any, partial: false): { data: RateLimitPolicyInput } | { error: string };
+export function parsePolicyInput(body: any, partial: true): { data: Partial<RateLimitPolicyInput> } | { error: string };
+export function parsePolicyInput(body: any, partial: boolean): { data: Record<string, any> } | { error: string } {
+  const data: Record<string, any> = {};
+
+  if (!partial || body.action_type !== undefined) {
+    if (!isRateLimitAction(body.action_type)) {
+      return { error: `action_type must be one of: ${RATE_LIMIT_ACTIONS.join(', ')}` };
+    }
+    data.action_type = body.action_type;
+  }
+
+  const limitError = validateLimitValues(body.max, body.window, !partial);
+  if (limitError) return { error: limitError };
+  if (body.max !== undefined) data.max = body.max;
+  if (body.window !== undefined) data.window = body.window;
+
+  if (body.role !== undefined) {
+    if (body.role !== null && !Object.values(Role).includes(body.role)) {
+      return { error: 'role must be USER, MODERATOR, ADMIN, SUPER_ADMIN or null' };
+    }
+    data.role = body.role;
+  }
+
+  for (const field of POLICY_CONDITION_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && !Number.isInteger(body[field])) {
+      return { error: `${field} must be an integer or null` };
+    }
+    data[field] = body[field];
+  }
+
+  if (body.exempt !== undefined) {
+    if (typeof body.exempt !== 'boolean') return { error: 'exempt must be a boolean' };
+    data.exempt = body.exempt;
+  }
+
+  if (body.priority !== undefined) {
+    if (!Number.isInteger(body.priority)) return { error: 'priority must be an integer' };
+    data.priority = body.priority;
+  }
+
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' ? body.description.slice(0, 200) : null;
+  }
+
+  return { data };
+}
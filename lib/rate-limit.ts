@@ -1,79 +1,248 @@
-import { ActionType, RateLimitConfig } from '@/lib/types';
-
-export const RATE_LIMITS: Record<ActionType, RateLimitConfig> = {
-  comment: { max: 5, window: 60 }, // 5 comments per hour
-  vote: { max: 20, window: 60 },    // 20 votes per hour
-  delete: { max: 10, window: 60 },   // 10 deletions per hour
-  edit: { max: 15, window: 60 },     // 15 edits per hour
-  report: { max: 10, window: 60 },   // 10 reports per hour
-  ban: { max: 5, window: 1440 },     // 5 bans per day
-  warn: { max: 20, window: 60 }      // 20 warnings per hour
-};
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/app/api/db/connection';
+import { getClientIp } from '@/lib/client-ip';
+import { RateLimitSubject, resolveRateLimit } from '@/lib/rate-limit-policies';
+import { ActionType, ApiResponse, RateLimitConfig, RateLimitResult, ReadRoute } from '@/lib/types';
 
-export async function checkRateLimit(
-  userId: number, 
-  actionType: ActionType, 
-  db: any
-): Promise<void> {
-  const limit = RATE_LIMITS[actionType];
-  if (!limit) {
-    throw new Error(`Invalid action type: ${actionType}`);
+// Token bucket implemented as GCRA: a bucket of `max` tokens that refills continuously over
+// `window` minutes, with max and window taken from the user's effective policy
+// (lib/rate-limit-policies.ts). Each bucket only stores its theoretical arrival time (tat), the moment it
+// would be full again; a request fits when, after adding its cost, the bucket would not be
+// refilled later than one window from now. That makes a check a single atomic write.
+//
+// RATE_LIMIT_STORE=database (default) shares buckets across server instances through the
+// rate_limit_buckets table; RATE_LIMIT_STORE=memory keeps them per instance.
+
+export interface RateLimitStore {
+  // Adds costMs to the bucket unless that would push its tat past now + burstMs.
+  // Returns whether it did and the bucket's tat afterwards.
+  consume(key: string, now: number, costMs: number, burstMs: number): Promise<{ allowed: boolean; tat: number }>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, number>();
+  private lastPrune = 0;
+
+  async consume(key: string, now: number, costMs: number, burstMs: number) {
+    this.prune(now);
+
+    const tat = Math.max(this.buckets.get(key) ?? now, now);
+    const newTat = tat + costMs;
+    if (newTat - now > burstMs) {
+      return { allowed: false, tat };
+    }
+
+    this.buckets.set(key, newTat);
+    return { allowed: true, tat: newTat };
+  }
+
+  // Buckets whose tat has passed are full, which is the same as not existing
+  private prune(now: number) {
+    if (now - this.lastPrune < 60 * 1000) return;
+    this.lastPrune = now;
+    this.buckets.forEach((tat, key) => {
+      if (tat <= now) this.buckets.delete(key);
+    });
   }
+}
 
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - limit.window * 60 * 1000);
+export class DatabaseRateLimitStore implements RateLimitStore {
+  async consume(key: string, now: number, costMs: number, burstMs: number) {
+    // The conditional upsert returns no row when the request does not fit
+    const rows = await db.$queryRaw<{ tat: bigint }[]>`
+      INSERT INTO rate_limit_buckets (key, tat, updated_at)
+      VALUES (${key}, ${BigInt(now + costMs)}, NOW())
+      ON CONFLICT (key) DO UPDATE
+        SET tat = GREATEST(rate_limit_buckets.tat, ${BigInt(now)}) + ${BigInt(costMs)},
+            updated_at = NOW()
+        WHERE GREATEST(rate_limit_buckets.tat, ${BigInt(now)}) + ${BigInt(costMs)} - ${BigInt(now)} <= ${BigInt(burstMs)}
+      RETURNING tat
+    `;
 
-  // Clean old rate limit records
-  await db.rateLimit.deleteMany({
-    where: {
-      window_end: {
-        lt: now
-      }
+    // Occasional cleanup instead of a scheduled job
+    if (Math.random() < 0.01) {
+      await db.rateLimitBucket.deleteMany({ where: { tat: { lt: BigInt(now) } } });
     }
-  });
-
-  // Check current window
-  const currentCounts = await db.rateLimit.findMany({
-    where: {
-      user_id: userId,
-      action_type: actionType,
-      window_start: {
-        gte: windowStart
-      }
+
+    if (rows.length > 0) {
+      return { allowed: true, tat: Number(rows[0].tat) };
     }
-  });
 
-  const total = currentCounts.reduce((sum: number, record: any) => sum + record.action_count, 0);
+    const bucket = await db.rateLimitBucket.findUnique({ where: { key } });
+    return { allowed: false, tat: bucket ? Number(bucket.tat) : now };
+  }
+}
 
-  if (total >= limit.max) {
-    throw new Error(
-      `Rate limit exceeded for ${actionType}. Maximum ${limit.max} per ${limit.window} minutes.`
-    );
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore: RateLimitStore | undefined;
+};
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore = process.env.RATE_LIMIT_STORE === 'memory'
+      ? new MemoryRateLimitStore()
+      : new DatabaseRateLimitStore();
   }
+  return globalForRateLimit.rateLimitStore;
+}
 
-  // Record this action
-  const windowEnd = new Date(now.getTime() + limit.window * 60 * 1000);
-  
-  await db.rateLimit.upsert({
-    where: {
-      user_id_action_type_window_start: {
-        user_id: userId,
-        action_type: actionType,
-        window_start: windowStart
-      }
-    },
-    update: {
-      action_count: {
-        increment: 1
-      },
-      window_end: windowEnd
-    },
-    create: {
-      user_id: userId,
-      action_type: actionType,
-      action_count: 1,
-      window_start: windowStart,
-      window_end: windowEnd
-    }
-  });
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimit.rateLimitStore = store;
+}
+
+// Thrown by checkRateLimit so route handlers can turn it into a 429 with Retry-After
+export class RateLimitError extends Error {
+  readonly result: RateLimitResult;
+
+  constructor(result: RateLimitResult, config: RateLimitConfig) {
+    super(result.action === 'read'
+      ? `Too many requests. Read budget of ${config.max} per ${config.window} minutes exhausted.`
+      : `Rate limit exceeded for ${result.action}. Maximum ${config.max} per ${config.window} minutes.`);
+    this.name = 'RateLimitError';
+    this.result = result;
+  }
+}
+
+// Takes `cost` tokens from the bucket, refusing when fewer are left
+async function consumeTokens(
+  key: string,
+  action: RateLimitResult['action'],
+  config: RateLimitConfig,
+  cost: number = 1
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowMs = config.window * 60 * 1000;
+  const intervalMs = Math.ceil(windowMs / config.max); // Time for one token to refill
+
+  const { allowed, tat } = await getRateLimitStore().consume(key, now, intervalMs * cost, windowMs);
+
+  return {
+    action,
+    allowed,
+    limit: config.max,
+    remaining: Math.max(Math.floor((windowMs - (tat - now)) / intervalMs), 0),
+    reset_at: new Date(Math.max(tat, now)),
+    retry_after: allowed ? 0 : Math.max(Math.ceil((tat + intervalMs * cost - windowMs - now) / 1000), 1)
+  };
+}
+
+// Takes one token for the action, throwing RateLimitError when the bucket is empty.
+// The returned result is meant for withRateLimitHeaders on the success response.
+export async function checkRateLimit(
+  user: RateLimitSubject,
+  actionType: ActionType
+): Promise<RateLimitResult> {
+  const limit = await resolveRateLimit(user, actionType);
+
+  if (limit.exempt) {
+    return {
+      action: actionType,
+      allowed: true,
+      limit: limit.max,
+      remaining: limit.max,
+      reset_at: new Date(),
+      retry_after: 0
+    };
+  }
+
+  const result = await consumeTokens(`${actionType}:${user.anilist_user_id}`, actionType, limit);
+
+  if (!result.allowed) {
+    throw new RateLimitError(result, limit);
+  }
+
+  return result;
+}
+
+// Read endpoints share one budget per client, and each request spends its route's cost, so a
+// full comment tree weighs more than a tag lookup. Anonymous clients are keyed by IP
+// (lib/client-ip.ts); requests whose optional token verified are keyed by user with their own,
+// larger budget. READ_ROUTE_COSTS overrides costs, e.g. "comments=8,search=6".
+export const READ_ROUTE_COSTS: Record<ReadRoute, number> = {
+  comments: 5, // Paginated list with nested reply trees
+  thread: 4,   // Whole thread with stats
+  search: 4,   // Full-text search
+  stream: 5,   // Opens a long-lived connection
+  replies: 2,
+  voters: 2,
+  votes: 2,
+  units: 2,
+  comment: 1,
+  tags: 1
+};
+
+function getReadRouteCost(route: ReadRoute): number {
+  const override = (process.env.READ_ROUTE_COSTS || '')
+    .split(',')
+    .map(entry => entry.trim().split('='))
+    .find(([name]) => name === route);
+  const cost = override ? parseInt(override[1], 10) : NaN;
+  return cost > 0 ? cost : READ_ROUTE_COSTS[route];
+}
+
+function getReadBudget(authenticated: boolean): RateLimitConfig {
+  const max = parseInt(
+    (authenticated ? process.env.READ_RATE_LIMIT_AUTH_BUDGET : process.env.READ_RATE_LIMIT_BUDGET) || '', 10
+  );
+  const window = parseInt(process.env.READ_RATE_LIMIT_WINDOW || '', 10);
+  return {
+    max: max > 0 ? max : (authenticated ? 1200 : 600),
+    window: window > 0 ? window : 10 // minutes
+  };
+}
+
+// Spends the route's cost from the caller's read budget, throwing RateLimitError when it is
+// exhausted. Pass the id of a verified user to use the per-user budget instead of the IP's.
+export async function checkReadRateLimit(
+  request: NextRequest,
+  route: ReadRoute,
+  userId: number | null = null
+): Promise<RateLimitResult> {
+  const config = getReadBudget(userId !== null);
+
+  if (process.env.READ_RATE_LIMIT_ENABLED === 'false') {
+    return {
+      action: 'read',
+      allowed: true,
+      limit: config.max,
+      remaining: config.max,
+      reset_at: new Date(),
+      retry_after: 0
+    };
+  }
+
+  const key = userId !== null ? `read:user:${userId}` : `read:ip:${getClientIp(request)}`;
+  const cost = Math.min(getReadRouteCost(route), config.max);
+  const result = await consumeTokens(key, 'read', config, cost);
+
+  if (!result.allowed) {
+    throw new RateLimitError(result, config);
+  }
+
+  return result;
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.reset_at.getTime() / 1000))
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retry_after);
+  }
+  return headers;
+}
+
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  Object.entries(rateLimitHeaders(result)).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
+
+export function rateLimitedResponse(error: RateLimitError) {
+  return NextResponse.json<ApiResponse<{ rate_limit: RateLimitResult }>>({
+    success: false,
+    error: error.message,
+    data: { rate_limit: error.result }
+  }, { status: 429, headers: rateLimitHeaders(error.result) });
 }
@@ -0,0 +1,69 @@
+import { Role as PrismaRole } from '@prisma/client';
+import { IdentityProfile } from '@/lib/types';
+
+// Where user roles come from when someone signs in.
+//
+// ROLE_SOURCE=local (default): roles are owned by this service. A provider's moderator status
+// (AniList moderatorStatus) only seeds the role of a new account, and only while
+// ROLE_SEED_FROM_PROVIDER is not "false". Promotions and demotions made through the admin APIs
+// are never reverted by a login.
+// ROLE_SOURCE=provider: the provider's moderator status is applied on every login, except
+// that super admins are never demoted by a sync.
+//
+// SUPER_ADMIN_IDS is a comma-separated list of accounts that are always super admins: plain
+// numbers are AniList ids, "<provider>:<external_id>" entries match other providers.
+
+export type RoleSource = 'local' | 'provider';
+
+export function getRoleSource(): RoleSource {
+  return process.env.ROLE_SOURCE === 'provider' ? 'provider' : 'local';
+}
+
+export function getConfiguredSuperAdmins(): string[] {
+  return (process.env.SUPER_ADMIN_IDS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+export function isConfiguredSuperAdmin(profile: IdentityProfile): boolean {
+  return getConfiguredSuperAdmins().some(entry => {
+    if (/^\d+$/.test(entry)) {
+      return profile.anilist_user_id === parseInt(entry, 10);
+    }
+    return entry === `${profile.provider}:${profile.external_id}`;
+  });
+}
+
+export function roleFromModeratorStatus(status: string | null): PrismaRole {
+  if (status === 'ADMIN') return PrismaRole.ADMIN;
+  if (status === 'MODERATOR') return PrismaRole.MODERATOR;
+  return PrismaRole.USER;
+}
+
+// The role a sign-in should leave the account with; currentRole is null for new accounts
+export function resolveSignInRole(profile: IdentityProfile, currentRole: PrismaRole | null): PrismaRole {
+  if (isConfiguredSuperAdmin(profile)) {
+    return PrismaRole.SUPER_ADMIN;
+  }
+
+  if (currentRole === null) {
+    return process.env.ROLE_SEED_FROM_PROVIDER === 'false'
+      ? PrismaRole.USER
+      : roleFromModeratorStatus(profile.moderator_status);
+  }
+
+  if (getRoleSource() === 'local' || currentRole === PrismaRole.SUPER_ADMIN) {
+    return currentRole;
+  }
+
+  return roleFromModeratorStatus(profile.moderator_status);
+}
+
+// Legacy boolean flags kept in sync with the role for backward compatibility
+export function roleFlags(role: PrismaRole) {
+  return {
+    is_mod: role === PrismaRole.MODERATOR || role === PrismaRole.ADMIN || role === PrismaRole.SUPER_ADMIN,
+    is_admin: role === PrismaRole.ADMIN || role === PrismaRole.SUPER_ADMIN
+  };
+}
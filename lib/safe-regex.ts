@@ -0,0 +1,154 @@
+// Static check for regular expressions that can backtrack catastrophically, in the spirit of
+// safe-regex. A pattern is rejected when it has:
+//   - nested quantifiers: a repeated group containing a variable-length term, as in (a+)+ or (\w+\s?){2,}
+//   - overlapping alternatives under repetition, as in (a|ab)* or (\w|\d)+
+//   - overlapping quantifiers in a row, as in \d+\d+, .*.* or a*b?a*
+// Which characters a term can match is approximated by testing it against a sample of
+// characters, so the check errs towards rejecting. Patterns must already compile.
+
+interface Term {
+  source: string;
+  // Contents of a group, one list of terms per alternative; null for anything else
+  alternatives: Term[][] | null;
+  // Anchors and lookarounds, which consume nothing
+  zeroWidth: boolean;
+  min: number;
+  max: number;
+}
+
+const SAMPLE_CHARACTERS = Array.from({ length: 0x7f - 0x20 }, (_, i) => String.fromCharCode(0x20 + i))
+  .concat(['\t', '\n', ' ', 'é', 'ß', 'Ж', 'あ', '中', '😀']);
+
+const GROUP_PREFIX = /^\?(?::|=|!|<=|<!|<[^>]*>)/;
+const ESCAPE = /^\\(?:[pP]\{[^}]*\}|u\{[^}]*\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[a-zA-Z]|k<[^>]*>|\d+|[\s\S])/;
+const QUANTIFIER = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/;
+
+function parseAlternatives(pattern: string, state: { pos: number }): Term[][] {
+  const alternatives: Term[][] = [[]];
+
+  while (state.pos < pattern.length) {
+    const char = pattern[state.pos];
+    if (char === ')') {
+      state.pos++;
+      break;
+    }
+    if (char === '|') {
+      alternatives.push([]);
+      state.pos++;
+      continue;
+    }
+
+    const start = state.pos;
+    let group: Term[][] | null = null;
+    let zeroWidth = false;
+
+    if (char === '(') {
+      const prefix = GROUP_PREFIX.exec(pattern.slice(start + 1));
+      zeroWidth = !!prefix && ['?=', '?!', '?<=', '?<!'].indexOf(prefix[0]) !== -1;
+      state.pos = start + 1 + (prefix ? prefix[0].length : 0);
+      group = parseAlternatives(pattern, state);
+    } else if (char === '[') {
+      let pos = start + 1;
+      while (pos < pattern.length && pattern[pos] !== ']') {
+        pos += pattern[pos] === '\\' ? 2 : 1;
+      }
+      state.pos = pos + 1;
+    } else if (char === '\\') {
+      const escape = ESCAPE.exec(pattern.slice(start));
+      state.pos += escape ? escape[0].length : 1;
+      zeroWidth = !!escape && (escape[0] === '\\b' || escape[0] === '\\B');
+    } else {
+      state.pos += (pattern.codePointAt(start) || 0) > 0xffff ? 2 : 1;
+      zeroWidth = char === '^' || char === '$';
+    }
+
+    const source = pattern.slice(start, state.pos);
+    let min = 1;
+    let max = 1;
+    const quantifier = QUANTIFIER.exec(pattern.slice(state.pos));
+    if (quantifier) {
+      state.pos += quantifier[0].length;
+      if (quantifier[1]) {
+        min = quantifier[1] === '+' ? 1 : 0;
+        max = quantifier[1] === '?' ? 1 : Infinity;
+      } else {
+        min = Number(quantifier[2]);
+        max = quantifier[3] === undefined ? min : quantifier[4] ? Number(quantifier[4]) : Infinity;
+      }
+    }
+
+    alternatives[alternatives.length - 1].push({ source, alternatives: group, zeroWidth, min, max });
+  }
+
+  return alternatives;
+}
+
+// Whether the term can match strings of different lengths
+function varies(term: Term): boolean {
+  return term.max > term.min || (term.alternatives !== null && containsVarying(term.alternatives));
+}
+
+function containsVarying(alternatives: Term[][]): boolean {
+  return alternatives.some(terms => terms.some(varies));
+}
+
+// The sample characters the term can match anywhere in it
+function characterSet(term: Term, flags: string): string[] {
+  if (term.zeroWidth) return [];
+
+  if (term.alternatives) {
+    return unionOf(term.alternatives.map(terms => unionOf(terms.map(inner => characterSet(inner, flags)))));
+  }
+
+  try {
+    const regex = new RegExp(`^(?:${term.source})$`, flags);
+    return SAMPLE_CHARACTERS.filter(char => regex.test(char));
+  } catch {
+    // Backreferences do not compile on their own and can match anything
+    return SAMPLE_CHARACTERS;
+  }
+}
+
+function unionOf(sets: string[][]): string[] {
+  return sets.reduce((union, set) => union.concat(set.filter(char => union.indexOf(char) === -1)), []);
+}
+
+function overlaps(a: string[], b: string[]): boolean {
+  return a.some(char => b.indexOf(char) !== -1);
+}
+
+function isSafeSequence(terms: Term[], flags: string): boolean {
+  for (let i = 0; i < terms.length; i++) {
+    const term = terms[i];
+
+    if (term.alternatives) {
+      if (!term.alternatives.every(inner => isSafeSequence(inner, flags))) return false;
+
+      if (term.max > 1) {
+        if (containsVarying(term.alternatives)) return false;
+
+        const sets = term.alternatives.map(inner => unionOf(inner.map(t => characterSet(t, flags))));
+        for (let a = 0; a < sets.length; a++) {
+          for (let b = a + 1; b < sets.length; b++) {
+            if (overlaps(sets[a], sets[b])) return false;
+          }
+        }
+      }
+    }
+
+    if (!varies(term)) continue;
+
+    // Look past optional terms for the next variable-length one that could take the same input
+    for (let j = i + 1; j < terms.length; j++) {
+      const next = terms[j];
+      if (varies(next) && overlaps(characterSet(term, flags), characterSet(next, flags))) return false;
+      if (next.min > 0 && !next.zeroWidth) break;
+    }
+  }
+
+  return true;
+}
+
+export function isSafePattern(pattern: string, flags: string): boolean {
+  return parseAlternatives(pattern, { pos: 0 }).every(terms => isSafeSequence(terms, flags));
+}
@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { shadowBannedSql } from '@/lib/visibility';
+
+// Ranking scores are cached on each comment (hot_score, controversy_score, best_score)
+// so listings can sort and paginate on them. They are recalculated whenever vote counts change.
+
+// Seconds offset and decay used by the hot ranking: a comment needs 10x the net score
+// to outrank one posted 12.5 hours later
+const HOT_EPOCH_SECONDS = 1134028003;
+const HOT_DECAY_SECONDS = 45000;
+
+// 80% confidence for the Wilson lower bound
+const WILSON_Z = 1.281551565545;
+
+export interface CommentScores {
+  hot_score: number;
+  controversy_score: number;
+  best_score: number;
+}
+
+export function hotScore(upvotes: number, downvotes: number, createdAt: Date): number {
+  const score = upvotes - downvotes;
+  const order = Math.log10(Math.max(Math.abs(score), 1));
+  const sign = score > 0 ? 1 : score < 0 ? -1 : 0;
+  const seconds = createdAt.getTime() / 1000 - HOT_EPOCH_SECONDS;
+  return sign * order + seconds / HOT_DECAY_SECONDS;
+}
+
+// High when there are many votes split close to evenly; zero if either side has no votes
+export function controversyScore(upvotes: number, downvotes: number): number {
+  if (upvotes <= 0 || downvotes <= 0) return 0;
+  const magnitude = upvotes + downvotes;
+  const balance = upvotes > downvotes ? downvotes / upvotes : upvotes / downvotes;
+  return Math.pow(magnitude, balance);
+}
+
+// Lower bound of the Wilson score interval for the share of upvotes
+export function bestScore(upvotes: number, downvotes: number): number {
+  const n = upvotes + downvotes;
+  if (n === 0) return 0;
+
+  const p = upvotes / n;
+  const z2 = WILSON_Z * WILSON_Z;
+  return (p + z2 / (2 * n) - WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) / (1 + z2 / n);
+}
+
+export function computeCommentScores(upvotes: number, downvotes: number, createdAt: Date): CommentScores {
+  return {
+    hot_score: hotScore(upvotes, downvotes, createdAt),
+    controversy_score: controversyScore(upvotes, downvotes),
+    best_score: bestScore(upvotes, downvotes)
+  };
+}
+
+// Recalculates the cached scores in SQL, using the same formulas as above, for the given
+// comments or for every comment. Needed once after the score columns are added and safe to re-run.
+export async function backfillCommentScores(commentIds?: number[]): Promise<number> {
+  return db.$executeRaw`
+    UPDATE comments SET
+      hot_score = SIGN(upvotes - downvotes) * LOG(GREATEST(ABS(upvotes - downvotes), 1))
+        + (EXTRACT(EPOCH FROM created_at) - ${HOT_EPOCH_SECONDS}) / ${HOT_DECAY_SECONDS}::float,
+      controversy_score = CASE
+        WHEN upvotes <= 0 OR downvotes <= 0 THEN 0
+        ELSE POWER(upvotes + downvotes,
+          CASE WHEN upvotes > downvotes THEN downvotes::float / upvotes ELSE upvotes::float / downvotes END)
+      END,
+      best_score = CASE
+        WHEN upvotes + downvotes = 0 THEN 0
+        ELSE (
+          upvotes::float / (upvotes + downvotes)
+          + ${WILSON_Z * WILSON_Z} / (2.0 * (upvotes + downvotes))
+          - ${WILSON_Z} * SQRT(
+              (upvotes::float / (upvotes + downvotes)) * (downvotes::float / (upvotes + downvotes)) / (upvotes + downvotes)
+              + ${WILSON_Z * WILSON_Z} / (4.0 * (upvotes + downvotes) * (upvotes + downvotes))
+            )
+        ) / (1 + ${WILSON_Z * WILSON_Z} / (upvotes + downvotes)::float)
+      END
+    ${commentIds ? Prisma.sql`WHERE id = ANY(${commentIds})` : Prisma.empty}
+  `;
+}
+
+// Recounts public vote totals, and the scores derived from them, on every comment the user
+// voted on. Called when the user's shadow ban starts or ends, since votes from shadow-banned
+// users are excluded from the totals.
+export async function recountVotesByUser(userId: number): Promise<number> {
+  const voted = await db.vote.findMany({
+    where: { user_id: userId },
+    select: { comment_id: true }
+  });
+  const commentIds = voted.map(vote => vote.comment_id);
+  if (commentIds.length === 0) return 0;
+
+  await db.$executeRaw`
+    UPDATE comments c SET
+      upvotes = counts.upvotes,
+      downvotes = counts.downvotes,
+      total_votes = counts.upvotes + counts.downvotes
+    FROM (
+      SELECT
+        c2.id,
+        COUNT(v.id) FILTER (WHERE v.vote_type = 1)::int AS upvotes,
+        COUNT(v.id) FILTER (WHERE v.vote_type = -1)::int AS downvotes
+      FROM comments c2
+      LEFT JOIN votes v ON v.comment_id = c2.id AND NOT ${shadowBannedSql('v.user_id')}
+      WHERE c2.id = ANY(${commentIds})
+      GROUP BY c2.id
+    ) counts
+    WHERE c.id = counts.id
+  `;
+
+  return backfillCommentScores(commentIds);
+}
@@ -0,0 +1,109 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { CursorField } from '@/lib/pagination';
+import { buildVisibilitySql } from '@/lib/visibility';
+
+// The 'simple' configuration does no stemming or stop-word removal, which keeps matching
+// predictable for character names, romaji and the exact terms moderators look for
+const SEARCH_CONFIG = 'simple';
+
+// Must stay identical to the indexed expression in ensureSearchIndex for the index to be used
+const SEARCH_VECTOR = Prisma.raw(`to_tsvector('${SEARCH_CONFIG}', c.content)`);
+
+// ts_headline copies comment text verbatim, so matches are marked with sentinels and
+// formatSnippet escapes the text before turning them into <mark> tags
+const HIGHLIGHT_START = '[[mark]]';
+const HIGHLIGHT_STOP = '[[/mark]]';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15, ShortWord=2, MaxFragments=2`;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export const SEARCH_SORT_KEY = 'search';
+export const SEARCH_SORT: CursorField[] = [
+  { field: 'rank', direction: 'desc', type: 'number' },
+  { field: 'created_at', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'number' }
+];
+
+export interface CommentSearchFilters {
+  query: string;
+  mediaId?: number;
+  mediaType?: string;
+  authorId?: number;
+  authorName?: string;
+  from?: Date;
+  to?: Date;
+  includeDeleted: boolean;
+  viewerId: number | null;
+  isModerator: boolean;
+  cursor: any[] | null;
+  limit: number;
+}
+
+export interface CommentSearchHit {
+  id: number;
+  rank: number;
+  snippet: string;
+  created_at: Date;
+}
+
+export async function searchComments(filters: CommentSearchFilters): Promise<CommentSearchHit[]> {
+  const tsQuery = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${filters.query})`;
+  const conditions: Prisma.Sql[] = [Prisma.sql`${SEARCH_VECTOR} @@ ${tsQuery}`];
+
+  if (filters.mediaId !== undefined) conditions.push(Prisma.sql`c.media_id = ${filters.mediaId}`);
+  if (filters.mediaType) conditions.push(Prisma.sql`c.media_type = CAST(${filters.mediaType} AS "MediaType")`);
+  if (filters.authorId !== undefined) conditions.push(Prisma.sql`c.anilist_user_id = ${filters.authorId}`);
+  if (filters.authorName) conditions.push(Prisma.sql`LOWER(u.username) = LOWER(${filters.authorName})`);
+  if (filters.from) conditions.push(Prisma.sql`c.created_at >= ${filters.from}`);
+  if (filters.to) conditions.push(Prisma.sql`c.created_at <= ${filters.to}`);
+  if (!filters.includeDeleted) conditions.push(Prisma.sql`c.is_deleted = false`);
+
+  // Keyset on (rank, created_at, id), all descending
+  const rankExpression = Prisma.sql`ts_rank(${SEARCH_VECTOR}, ${tsQuery})::float8`;
+  if (filters.cursor && filters.cursor.length > 0) {
+    const [rank, createdAt, id] = filters.cursor;
+    conditions.push(Prisma.sql`(${rankExpression}, c.created_at, c.id) < (${rank}::float8, ${createdAt}, ${id})`);
+  }
+
+  const hits = await db.$queryRaw<CommentSearchHit[]>`
+    SELECT
+      c.id,
+      c.created_at,
+      ${rankExpression} AS rank,
+      ts_headline(${SEARCH_CONFIG}::regconfig, c.content, ${tsQuery}, ${HEADLINE_OPTIONS}) AS snippet
+    FROM comments c
+    JOIN users u ON u.anilist_user_id = c.anilist_user_id
+    WHERE ${Prisma.join(conditions, ' AND ')}
+      ${buildVisibilitySql(filters.viewerId, filters.isModerator, 'c')}
+    ORDER BY rank DESC, c.created_at DESC, c.id DESC
+    LIMIT ${filters.limit + 1}
+  `;
+
+  return hits.map(hit => ({ ...hit, snippet: formatSnippet(hit.snippet) }));
+}
+
+// Snippets are HTML: everything from the comment is escaped and only the highlights are markup
+export function formatSnippet(headline: string): string {
+  return headline
+    .split(HIGHLIGHT_START)
+    .map(part => part.split(HIGHLIGHT_STOP).map(escapeHtml).join('</mark>'))
+    .join('<mark>');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+// Prisma cannot declare expression indexes, so the GIN index backing search is created here
+export async function ensureSearchIndex(): Promise<void> {
+  await db.$executeRawUnsafe(
+    `CREATE INDEX IF NOT EXISTS comments_content_search_idx ON comments USING GIN (to_tsvector('${SEARCH_CONFIG}', content))`
+  );
+}
@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { SignJWT, decodeJwt, jwtVerify } from 'jose';
+import { db } from '@/app/api/db/connection';
+import { invalidateUserTokens } from '@/lib/token-cache';
+import { AuthenticationError } from '@/lib/auth-errors';
+
+// First-party session tokens, issued by POST /api/auth/session after one identity verification.
+// Access tokens are short-lived and accepted by every route in place of a provider token;
+// refresh tokens are only accepted by POST /api/auth/session/refresh. Both carry the user's
+// token_version, so bumping it (logout, ban, role change) revokes everything issued before.
+//
+// Refresh tokens rotate: each is stored by its jti and can be redeemed once for a new pair.
+// A refresh token presented a second time has been copied, so every token rotated from the
+// same sign-in (its family) is revoked and the session has to sign in again.
+
+export type SessionTokenType = 'access' | 'refresh';
+
+export interface SessionClaims {
+  anilist_user_id: number;
+  role: string;
+  ver: number;
+  typ: SessionTokenType;
+  jti?: string; // Refresh tokens only
+}
+
+export const SESSION_ISSUER = 'anymex-comments';
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function getSigningKey(): Uint8Array {
+  const secret = process.env.SESSION_JWT_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_JWT_SECRET must be set to at least 32 characters');
+  }
+  return new TextEncoder().encode(secret);
+}
+
+// AniList and MyAnimeList tokens are JWTs too, so session tokens are told apart by their issuer
+export function isSessionToken(token: string): boolean {
+  try {
+    return decodeJwt(token).iss === SESSION_ISSUER;
+  } catch {
+    return false;
+  }
+}
+
+async function signSessionToken(
+  user: { anilist_user_id: number; role: string; token_version: number },
+  type: SessionTokenType,
+  ttlSeconds: number,
+  jti?: string
+): Promise<string> {
+  const jwt = new SignJWT({
+    anilist_user_id: user.anilist_user_id,
+    role: user.role,
+    ver: user.token_version,
+    typ: type
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(String(user.anilist_user_id))
+    .setIssuer(SESSION_ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(`${ttlSeconds}s`);
+
+  return (jti ? jwt.setJti(jti) : jwt).sign(getSigningKey());
+}
+
+// familyId continues the rotation chain of a refreshed session; a sign-in starts a new one
+export async function issueSessionTokens(
+  user: { anilist_user_id: number; role: string; token_version: number },
+  familyId: string = randomUUID()
+) {
+  const now = new Date();
+  const jti = randomUUID();
+
+  // Expired refresh tokens are no longer needed to detect reuse
+  await db.refreshToken.deleteMany({
+    where: { user_id: user.anilist_user_id, expires_at: { lte: now } }
+  });
+  await db.refreshToken.create({
+    data: {
+      id: jti,
+      user_id: user.anilist_user_id,
+      family_id: familyId,
+      expires_at: new Date(now.getTime() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+    }
+  });
+
+  const [accessToken, refreshToken] = await Promise.all([
+    signSessionToken(user, 'access', ACCESS_TOKEN_TTL_SECONDS),
+    signSessionToken(user, 'refresh', REFRESH_TOKEN_TTL_SECONDS, jti)
+  ]);
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_expires_in: REFRESH_TOKEN_TTL_SECONDS
+  };
+}
+
+// Checks signature, expiry and type only; callers compare ver with the user's token_version
+export async function verifySessionToken(token: string, type: SessionTokenType): Promise<SessionClaims> {
+  try {
+    const { payload } = await jwtVerify(token, getSigningKey(), {
+      issuer: SESSION_ISSUER,
+      algorithms: ['HS256']
+    });
+
+    if (payload.typ !== type || typeof payload.anilist_user_id !== 'number' || typeof payload.ver !== 'number') {
+      throw new Error('Unexpected session token claims');
+    }
+
+    return payload as unknown as SessionClaims;
+  } catch (error) {
+    console.error('Session token verification failed:', error);
+    throw new AuthenticationError('Invalid or expired session token');
+  }
+}
+
+// Marks a verified refresh token as used and returns its family, so the new pair continues the
+// rotation. Returns null when the token is unknown or was already redeemed; in the latter case
+// the rest of its family is revoked too.
+export async function redeemRefreshToken(claims: SessionClaims): Promise<string | null> {
+  if (!claims.jti) return null;
+
+  const stored = await db.refreshToken.findUnique({ where: { id: claims.jti } });
+  if (!stored || stored.user_id !== claims.anilist_user_id) return null;
+
+  const now = new Date();
+  const { count } = await db.refreshToken.updateMany({
+    where: { id: stored.id, used_at: null },
+    data: { used_at: now }
+  });
+
+  if (count === 0) {
+    await db.refreshToken.updateMany({
+      where: { family_id: stored.family_id, used_at: null },
+      data: { used_at: now }
+    });
+    return null;
+  }
+
+  return stored.family_id;
+}
+
+// Revokes every session token issued so far and drops cached AniList verifications
+export async function revokeUserSessions(userId: number): Promise<void> {
+  await db.user.updateMany({
+    where: { anilist_user_id: userId },
+    data: { token_version: { increment: 1 } }
+  });
+  await invalidateUserTokens(userId);
+}
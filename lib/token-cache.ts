@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { identityKey } from '@/lib/identity';
+import { IdentityProfile } from '@/lib/types';
+
+// Cache for identity token verification so routes do not call AniList (or another identity
+// provider) on every request. Entries are keyed by a SHA-256 hash of the token (the raw token
+// is never stored). Tokens the provider rejected are cached too, for a shorter time, as null
+// profiles.
+//
+// TOKEN_CACHE_STORE=memory (default) keeps entries per server instance;
+// TOKEN_CACHE_STORE=database shares them through the token_verifications table, which also
+// makes invalidation reach every instance.
+
+export interface TokenCacheEntry {
+  profile: IdentityProfile | null; // null marks a token the provider rejected
+  expires_at: Date;
+}
+
+export interface TokenCacheStore {
+  get(tokenHash: string): Promise<TokenCacheEntry | null>;
+  set(tokenHash: string, entry: TokenCacheEntry): Promise<void>;
+  delete(tokenHash: string): Promise<void>;
+  deleteByIdentity(key: string): Promise<number>;
+}
+
+const TOKEN_CACHE_TTL_SECONDS = parseInt(process.env.TOKEN_CACHE_TTL_SECONDS || '') || 300;
+const INVALID_TOKEN_TTL_SECONDS = parseInt(process.env.TOKEN_CACHE_INVALID_TTL_SECONDS || '') || 60;
+const MAX_MEMORY_ENTRIES = 10000;
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class MemoryTokenCacheStore implements TokenCacheStore {
+  private entries = new Map<string, TokenCacheEntry>();
+  private hashesByIdentity = new Map<string, Set<string>>();
+
+  async get(tokenHash: string): Promise<TokenCacheEntry | null> {
+    const entry = this.entries.get(tokenHash);
+    if (!entry) return null;
+    if (entry.expires_at.getTime() <= Date.now()) {
+      this.remove(tokenHash);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(tokenHash: string, entry: TokenCacheEntry): Promise<void> {
+    this.remove(tokenHash);
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.entries.size >= MAX_MEMORY_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.remove(oldest);
+    }
+
+    this.entries.set(tokenHash, entry);
+    if (entry.profile) {
+      const key = identityKey(entry.profile);
+      const hashes = this.hashesByIdentity.get(key) || new Set<string>();
+      hashes.add(tokenHash);
+      this.hashesByIdentity.set(key, hashes);
+    }
+  }
+
+  async delete(tokenHash: string): Promise<void> {
+    this.remove(tokenHash);
+  }
+
+  async deleteByIdentity(key: string): Promise<number> {
+    const hashes = this.hashesByIdentity.get(key);
+    if (!hashes) return 0;
+
+    const count = hashes.size;
+    hashes.forEach(hash => this.entries.delete(hash));
+    this.hashesByIdentity.delete(key);
+    return count;
+  }
+
+  private remove(tokenHash: string) {
+    const entry = this.entries.get(tokenHash);
+    if (!entry) return;
+
+    this.entries.delete(tokenHash);
+    if (entry.profile) {
+      const key = identityKey(entry.profile);
+      const hashes = this.hashesByIdentity.get(key);
+      hashes?.delete(tokenHash);
+      if (hashes && hashes.size === 0) this.hashesByIdentity.delete(key);
+    }
+  }
+}
+
+export class DatabaseTokenCacheStore implements TokenCacheStore {
+  async get(tokenHash: string): Promise<TokenCacheEntry | null> {
+    const row = await db.tokenVerification.findUnique({ where: { token_hash: tokenHash } });
+    if (!row) return null;
+    if (row.expires_at.getTime() <= Date.now()) {
+      await this.delete(tokenHash);
+      return null;
+    }
+    return {
+      profile: row.profile as unknown as IdentityProfile | null,
+      expires_at: row.expires_at
+    };
+  }
+
+  async set(tokenHash: string, entry: TokenCacheEntry): Promise<void> {
+    const data = {
+      identity_key: entry.profile ? identityKey(entry.profile) : null,
+      profile: entry.profile ? (entry.profile as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+      expires_at: entry.expires_at
+    };
+    await db.tokenVerification.upsert({
+      where: { token_hash: tokenHash },
+      update: data,
+      create: { token_hash: tokenHash, ...data }
+    });
+
+    // Occasional cleanup instead of a scheduled job
+    if (Math.random() < 0.01) {
+      await db.tokenVerification.deleteMany({ where: { expires_at: { lt: new Date() } } });
+    }
+  }
+
+  async delete(tokenHash: string): Promise<void> {
+    await db.tokenVerification.deleteMany({ where: { token_hash: tokenHash } });
+  }
+
+  async deleteByIdentity(key: string): Promise<number> {
+    const result = await db.tokenVerification.deleteMany({ where: { identity_key: key } });
+    return result.count;
+  }
+}
+
+const globalForTokenCache = globalThis as unknown as {
+  tokenCacheStore: TokenCacheStore | undefined;
+};
+
+export function getTokenCacheStore(): TokenCacheStore {
+  if (!globalForTokenCache.tokenCacheStore) {
+    globalForTokenCache.tokenCacheStore = process.env.TOKEN_CACHE_STORE === 'database'
+      ? new DatabaseTokenCacheStore()
+      : new MemoryTokenCacheStore();
+  }
+  return globalForTokenCache.tokenCacheStore;
+}
+
+// Lets a deployment plug in another store (e.g. Redis)
+export function setTokenCacheStore(store: TokenCacheStore) {
+  globalForTokenCache.tokenCacheStore = store;
+}
+
+// Cache failures fall through to a live verification rather than failing the request
+export async function getCachedVerification(token: string): Promise<TokenCacheEntry | null> {
+  try {
+    return await getTokenCacheStore().get(hashToken(token));
+  } catch (error) {
+    console.error('Token cache read failed:', error);
+    return null;
+  }
+}
+
+export async function cacheVerification(token: string, profile: IdentityProfile | null): Promise<void> {
+  const ttl = profile ? TOKEN_CACHE_TTL_SECONDS : INVALID_TOKEN_TTL_SECONDS;
+  try {
+    await getTokenCacheStore().set(hashToken(token), {
+      profile,
+      expires_at: new Date(Date.now() + ttl * 1000)
+    });
+  } catch (error) {
+    console.error('Token cache write failed:', error);
+  }
+}
+
+export async function invalidateToken(token: string): Promise<void> {
+  try {
+    await getTokenCacheStore().delete(hashToken(token));
+  } catch (error) {
+    console.error('Token cache invalidation failed:', error);
+  }
+}
+
+// Called when a user's role or ban changes so their next request re-verifies with the provider
+export async function invalidateUserTokens(userId: number): Promise<number> {
+  try {
+    const user = await db.user.findUnique({
+      where: { anilist_user_id: userId },
+      select: { provider: true, external_id: true }
+    });
+    // Accounts created before providers were recorded are keyed by their AniList id
+    const key = identityKey({
+      provider: user?.provider || 'anilist',
+      external_id: user?.external_id || String(userId)
+    });
+    return await getTokenCacheStore().deleteByIdentity(key);
+  } catch (error) {
+    console.error('Token cache invalidation failed:', error);
+    return 0;
+  }
+}
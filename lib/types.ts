@@ -1,5 +1,5 @@
 import { RoleType } from '@/lib/permissions';
-import { TagType } from '@prisma/client';
+import { AutomodAction, CommentModerationStatus, TagType } from '@prisma/client';
 
 export interface AniListUser {
   id: number;
@@ -11,6 +11,16 @@ export interface AniListUser {
   moderatorStatus?: string;
 }
 
+// Normalized profile returned by every identity provider (lib/identity.ts)
+export interface IdentityProfile {
+  provider: string;
+  external_id: string;
+  anilist_user_id?: number; // Set when the account maps onto an AniList user id
+  username: string;
+  avatar_url: string | null;
+  moderator_status: string | null;
+}
+
 export interface User {
   id?: string;
   anilist_user_id: number;
@@ -26,6 +36,9 @@ export interface User {
   shadow_ban_reason: string | null | undefined;
   shadow_ban_expires: Date | null | undefined;
   warning_count: number;
+  muted_notification_types?: string[];
+  provider?: string;
+  external_id?: string | null;
   created_at: Date;
   updated_at: Date;
   last_active: Date;
@@ -38,6 +51,7 @@ export interface Comment {
   anilist_user_id: number;
   media_id: number;
   media_type: MediaType;
+  unit_number: number | null; // Episode/chapter number, null for the general section
   parent_comment_id: number | null;
   root_comment_id: number | null;
   depth_level: number;
@@ -45,6 +59,9 @@ export interface Comment {
   upvotes: number;
   downvotes: number;
   total_votes: number;
+  hot_score?: number;
+  controversy_score?: number;
+  best_score?: number;
   user_vote_type: number | null; // Current user's vote type
   is_deleted: boolean;
   deleted_by: number | null;
@@ -73,6 +90,19 @@ export interface Comment {
   replies?: Comment[];
   reply_count?: number; // Total number of direct replies
   total_reply_count?: number; // Total number of all nested replies
+  more_replies?: number; // Replies not included in this response
+  more_replies_cursor?: string | null; // Cursor for GET /api/comments/[id]/replies to load them
+  author_shadow_banned?: boolean; // Moderator-only flag: the author is currently shadow-banned
+  moderation_status?: CommentModerationStatus; // HELD or HIDDEN by automoderation; moderators and the author only
+  is_collapsed?: boolean; // Collapsed behind a notice while its reports await review
+  is_locked?: boolean; // Root comments: the thread takes no new replies
+  lock_expires?: Date | null;
+  mentions?: CommentMention[]; // Users @mentioned in the content
+}
+
+export interface CommentMention {
+  user_id: number;
+  username: string;
 }
 
 export interface CommentVote {
@@ -90,6 +120,7 @@ export interface VoterInfo {
   role: RoleType;
   vote_type: -1 | 0 | 1;
   created_at: Date;
+  shadow_banned?: boolean; // Moderator-only flag: the voter is currently shadow-banned
 }
 
 export interface VoterListResponse {
@@ -124,20 +155,58 @@ export interface ApiResponse<T = any> {
   message?: string;
 }
 
-export type ActionType = 'comment' | 'vote' | 'delete' | 'edit' | 'report' | 'ban' | 'warn';
+export type ActionType = 'comment' | 'vote' | 'delete' | 'edit' | 'report' | 'ban' | 'warn' | 'mention';
 
 export interface RateLimitConfig {
   max: number;
   window: number; // in minutes
 }
 
-export interface RateLimit {
-  id: string;
-  user_id: number;
-  action_type: ActionType;
-  action_count: number;
-  window_start: Date;
-  window_end: Date;
+// The limit that applies to one user and action, see lib/rate-limit-policies.ts
+export interface EffectiveRateLimit extends RateLimitConfig {
+  action: ActionType;
+  exempt: boolean;
+  source: 'default' | 'policy' | 'override';
+  source_id: string | null; // RateLimitPolicy or RateLimitOverride id
+}
+
+// Anonymous and read traffic is budgeted per route cost, see checkReadRateLimit in lib/rate-limit.ts
+export type ReadRoute = 'comments' | 'comment' | 'thread' | 'replies' | 'voters' | 'votes' | 'tags' | 'units' | 'search' | 'stream';
+
+export interface RateLimitResult {
+  action: ActionType | 'read';
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_at: Date; // When the bucket is full again
+  retry_after: number; // Seconds until the next request is allowed; 0 when allowed
+}
+
+// Why POST /api/comments refused a comment, see lib/locks.ts
+export interface PostingRestriction {
+  type: 'thread_locked' | 'media_locked' | 'slow_mode';
+  reason: string | null;
+  expires_at: Date | null; // When the lock or slow mode lapses; null until lifted
+  slow_mode_seconds?: number;
+  retry_after?: number; // Seconds until the user may comment again under slow mode
+}
+
+// Automoderation (lib/automod.ts). A rule matches when every condition it sets matches.
+export interface AutomodConditions {
+  keywords?: string[];            // Any of these words or phrases, case-insensitive
+  patterns?: string[];            // Any of these regular expressions, case-insensitive
+  min_links?: number;             // At least this many links
+  min_repeated_chars?: number;    // One character repeated at least this many times in a row
+  min_caps_ratio?: number;        // Share of uppercase letters (0-1), once there are 10 or more letters
+  max_account_age_hours?: number; // Author's account is younger than this
+}
+
+export interface AutomodMatch {
+  rule_id: string;
+  rule_name: string;
+  rule_version: number;
+  action: AutomodAction;
+  reasons: string[]; // Which conditions matched, e.g. 'links: 4'
 }
 
 // Report interfaces
@@ -145,8 +214,10 @@ export interface Report {
   id: number;
   comment_id: number;
   reporter_user_id: number;
+  category: ReportCategory;
   reason: string;
   description?: string;
+  weight: number;
   status: ReportStatus;
   reviewed_by?: number;
   review_note?: string;
@@ -156,10 +227,21 @@ export interface Report {
 
 export interface CreateReportRequest {
   comment_id: number;
-  reason: string;
+  category?: string; // spam, harassment, spoiler, off-topic or other
+  reason?: string;   // Free-text summary; older clients send the category here
   description?: string;
 }
 
+export type ReportCategory = 'SPAM' | 'HARASSMENT' | 'SPOILER' | 'OFF_TOPIC' | 'OTHER';
+
+// How a reporter's past reports were decided, see lib/moderation-queue.ts
+export interface ReporterAccuracy {
+  resolved: number;
+  dismissed: number;
+  accuracy: number; // Smoothed share of decided reports that were upheld
+  weight: number;   // What the reporter's next report adds to a queue item
+}
+
 export type ReportStatus = 'PENDING' | 'REVIEWED' | 'RESOLVED' | 'DISMISSED';
 
 // Ban interfaces
@@ -182,6 +264,14 @@ export interface CreateBanRequest {
   is_permanent?: boolean;
 }
 
+// Returned in the `data` of a 403 when a banned user attempts a mutation
+export interface BanErrorDetails {
+  reason: string;
+  expires_at: Date | null;
+  is_permanent: boolean;
+  appeal_url: string; // Appeals stay open to banned users
+}
+
 // Warning interfaces
 export interface Warning {
   id: string;
@@ -197,6 +287,50 @@ export interface CreateWarningRequest {
   user_id: number;
   reason: string;
   description?: string;
+  expires_in_days?: number | null; // Overrides WARNING_EXPIRY_DAYS; null never expires
+}
+
+// A step of the warning escalation ladder (lib/escalation.ts)
+export interface EscalationStep {
+  id: string | null; // EscalationPolicy id, null for the built-in ladder
+  name: string;
+  warning_count: number;
+  window_days: number;
+  ban_hours: number | null;
+  is_permanent: boolean;
+}
+
+export interface EscalationPreview {
+  enabled: boolean;
+  active_warnings: Record<number, number>; // Active warnings keyed by window_days
+  next_sanction: EscalationStep | null;    // What the next warning would trigger
+  skipped_reason: string | null;           // Why next_sanction would not be applied
+  ladder: EscalationStep[];
+}
+
+// Appeal interfaces (lib/appeals.ts)
+export type AppealStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+export interface Appeal {
+  id: string;
+  user_id: number;
+  ban_id: string | null;     // Exactly one of ban_id and warning_id is set
+  warning_id: string | null;
+  statement: string;
+  status: AppealStatus;
+  assigned_to: number | null;
+  claimed_at: Date | null;
+  decided_by: number | null;
+  decided_at: Date | null;
+  decision_note: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateAppealRequest {
+  ban_id?: string;
+  warning_id?: string;
+  statement: string;
 }
 
 // Admin action interfaces
@@ -234,12 +368,26 @@ export interface VoteListResponse {
 export interface NestedCommentsResponse {
   comments: Comment[];
   hasMore: boolean;
+  next_cursor: string | null;
   total: number;
   page: number;
   limit: number;
   max_depth: number;
 }
 
+export interface UnitCommentCount {
+  unit_number: number | null;
+  comment_count: number;
+}
+
+export interface UnitCountsResponse {
+  media_id: number;
+  media_type: MediaType;
+  unit_label: 'episode' | 'chapter';
+  general_count: number;
+  units: UnitCommentCount[];
+}
+
 export interface ThreadResponse {
   comment: Comment;
   replies: Comment[];
@@ -280,7 +428,7 @@ export interface VoteStatistics {
 
 // WebSocket message types for real-time updates
 export interface WebSocketMessage {
-  type: 'new_comment' | 'vote_update' | 'comment_delete' | 'user_ban' | 'role_change';
+  type: 'new_comment' | 'vote_update' | 'comment_delete' | 'comment_tag' | 'user_ban' | 'role_change' | 'discussion_lock';
   data: any;
   timestamp: Date;
 }
@@ -301,6 +449,7 @@ export interface Notification {
 export interface CreateCommentRequest {
   media_id: number;
   media_type?: MediaType;
+  unit_number?: number | null; // Episode/chapter; replies inherit their parent's
   content: string;
   parent_comment_id?: number;
   mentions?: number[]; // Array of user IDs mentioned
@@ -0,0 +1,37 @@
+// Episode (ANIME) or chapter (MANGA) scoping for comment sections.
+// Comments without a unit_number belong to the media's general section.
+
+export const GENERAL_UNIT = 'general';
+export const ALL_UNITS = 'all';
+export const MAX_UNIT_NUMBER = 100000;
+
+// Plain decimal notation only, so "", " ", "0x10", "1e3" and "Infinity" are not units
+const UNIT_NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+// Accepts whole or fractional units such as 10.5, as numbers or decimal strings; returns
+// null when invalid
+export function parseUnitNumber(value: unknown): number | null {
+  if (typeof value === 'string' && !UNIT_NUMBER_PATTERN.test(value)) {
+    return null;
+  }
+  const unit = typeof value === 'string' ? Number(value) : value;
+  if (typeof unit !== 'number' || !isFinite(unit) || unit < 0 || unit > MAX_UNIT_NUMBER) {
+    return null;
+  }
+  return unit;
+}
+
+// Where fragment for the `unit` query parameter: omitted or "general" selects unscoped
+// comments, "all" selects every section, a number selects that episode/chapter.
+// Returns null when the parameter is invalid, including when it is present but blank.
+export function buildUnitFilter(unit: string | null): { unit_number?: number | null } | null {
+  if (unit === null || unit === GENERAL_UNIT) return { unit_number: null };
+  if (unit === ALL_UNITS) return {};
+
+  const unitNumber = parseUnitNumber(unit);
+  return unitNumber === null ? null : { unit_number: unitNumber };
+}
+
+export function getUnitLabel(mediaType: string): 'episode' | 'chapter' {
+  return mediaType === 'MANGA' ? 'chapter' : 'episode';
+}
@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/app/api/db/connection';
+import { canViewReports, isShadowBanned } from '@/lib/permissions';
+
+// Content from a shadow-banned author, and comments held or hidden by automoderation, is only
+// visible to the author and to moderators.
+// Expiry is part of every check, so a lapsed shadow ban needs no cleanup to take effect.
+
+// Users whose shadow ban is not currently in force
+export function notShadowBannedWhere() {
+  return {
+    OR: [
+      { shadow_banned: false },
+      { shadow_ban_expires: { lte: new Date() } }
+    ]
+  };
+}
+
+// Where fragment restricting comments to those the viewer may see
+export function buildVisibilityWhere(viewerId: number | null, isModerator: boolean): Prisma.CommentWhereInput {
+  if (isModerator) return {};
+
+  const visible: Prisma.CommentWhereInput[] = [{ moderation_status: 'VISIBLE', user: notShadowBannedWhere() }];
+  if (viewerId) visible.push({ anilist_user_id: viewerId });
+  return { OR: visible };
+}
+
+// True when the user referenced by `userColumn` has a shadow ban in force
+export function shadowBannedSql(userColumn: string): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM users sb
+    WHERE sb.anilist_user_id = ${Prisma.raw(userColumn)}
+      AND sb.shadow_banned = true
+      AND (sb.shadow_ban_expires IS NULL OR sb.shadow_ban_expires > NOW())
+  )`;
+}
+
+// Raw SQL counterpart of buildVisibilityWhere, for a comments table aliased as `alias`
+export function buildVisibilitySql(viewerId: number | null, isModerator: boolean, alias = 'comments'): Prisma.Sql {
+  if (isModerator) return Prisma.empty;
+
+  const authorColumn = `${alias}.anilist_user_id`;
+  return Prisma.sql`AND (
+    (${Prisma.raw(alias)}.moderation_status = 'VISIBLE' AND NOT ${shadowBannedSql(authorColumn)})
+    ${viewerId ? Prisma.sql`OR ${Prisma.raw(authorColumn)} = ${viewerId}` : Prisma.empty}
+  )`;
+}
+
+// For single comments already loaded with their author
+export function isHiddenFromViewer(comment: any, viewerId: number | null, isModerator: boolean): boolean {
+  if (isModerator || !comment) return false;
+  if (viewerId && comment.anilist_user_id === viewerId) return false;
+  if (comment.moderation_status && comment.moderation_status !== 'VISIBLE') return true;
+  return comment.user ? isShadowBanned(comment.user) : false;
+}
+
+// Only votes from users who are not shadow-banned count toward public totals
+export function countedVoteWhere(): Prisma.VoteWhereInput {
+  return { user: notShadowBannedWhere() };
+}
+
+// Moderators see shadow-banned content (flagged); looks the viewer up without upserting
+export async function isModeratorViewer(viewerId: number | null): Promise<boolean> {
+  if (!viewerId) return false;
+
+  const viewer = await db.user.findUnique({
+    where: { anilist_user_id: viewerId }
+  });
+
+  return viewer ? canViewReports(viewer as any) : false;
+}
@@ -0,0 +1,190 @@
+import { createHmac, randomBytes } from 'crypto';
+import { db } from '@/app/api/db/connection';
+
+// Outbound webhooks. Handlers call enqueueWebhookEvent, which writes one delivery per
+// subscribed endpoint to the webhook_deliveries outbox. The outbox is drained right away,
+// on every later enqueue, every minute by GET /api/cron/webhooks (scheduled in vercel.json)
+// and on demand through the admin API. Failed deliveries are retried with exponential
+// backoff until MAX_DELIVERY_ATTEMPTS.
+
+export const WEBHOOK_EVENTS = [
+  'comment.created',
+  'comment.reported',
+  'comment.deleted',
+  'user.banned',
+  'user.role_changed'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10000;
+// A claimed delivery is hidden from other workers for this long
+const DELIVERY_LEASE_SECONDS = 60;
+const OUTBOX_BATCH_SIZE = 20;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function isValidWebhookUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// The secret is only returned once, when the endpoint is created
+export function toPublicEndpoint<T extends { secret: string }>(endpoint: T): Omit<T, 'secret'> & { secret_preview: string } {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secret_preview: `${secret.slice(0, 4)}…` };
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare it with the
+// X-Webhook-Signature header; the timestamp lets them reject replays
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_SECONDS);
+}
+
+export async function enqueueWebhookEvent(event: WebhookEvent, data: Record<string, any>): Promise<number> {
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { is_active: true, events: { has: event } },
+      select: { id: true }
+    });
+    if (endpoints.length === 0) return 0;
+
+    const payload = { event, created_at: new Date().toISOString(), data };
+    const result = await db.webhookDelivery.createMany({
+      data: endpoints.map(endpoint => ({
+        endpoint_id: endpoint.id,
+        event,
+        payload
+      }))
+    });
+
+    // Not awaited: the request that triggered the event should not wait on receivers
+    processWebhookOutbox().catch(error => console.error('Webhook outbox error:', error));
+
+    return result.count;
+  } catch (error) {
+    // Webhooks are best effort and must never fail the write that triggered them
+    console.error('Enqueue webhook event failed:', error);
+    return 0;
+  }
+}
+
+// Delivers every due delivery once; returns how many were attempted
+export async function processWebhookOutbox(limit = OUTBOX_BATCH_SIZE): Promise<number> {
+  const due = await db.webhookDelivery.findMany({
+    where: { status: 'PENDING', next_attempt_at: { lte: new Date() } },
+    orderBy: { next_attempt_at: 'asc' },
+    take: limit,
+    select: { id: true }
+  });
+
+  let attempted = 0;
+  for (const { id } of due) {
+    if (await attemptDelivery(id)) attempted++;
+  }
+  return attempted;
+}
+
+// Returns false when another worker already claimed the delivery
+export async function attemptDelivery(deliveryId: string): Promise<boolean> {
+  const now = new Date();
+  const claimed = await db.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING', next_attempt_at: { lte: now } },
+    data: { next_attempt_at: new Date(now.getTime() + DELIVERY_LEASE_SECONDS * 1000) }
+  });
+  if (claimed.count === 0) return false;
+
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true }
+  });
+  if (!delivery) return false;
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!delivery.endpoint.is_active) {
+    error = 'Endpoint disabled';
+  } else {
+    try {
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AnymeX-Comments-Webhooks',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(delivery.endpoint.secret, timestamp, body)
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `Endpoint responded with ${response.status}`;
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : 'Delivery failed';
+    }
+  }
+
+  if (!error) {
+    await db.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'DELIVERED',
+        attempts,
+        last_attempt_at: now,
+        response_status: responseStatus,
+        last_error: null,
+        delivered_at: new Date()
+      }
+    });
+    return true;
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS || !delivery.endpoint.is_active;
+  await db.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: exhausted ? 'FAILED' : 'PENDING',
+      attempts,
+      last_attempt_at: now,
+      response_status: responseStatus,
+      last_error: error.slice(0, 500),
+      next_attempt_at: new Date(now.getTime() + retryDelaySeconds(attempts) * 1000)
+    }
+  });
+  return true;
+}
+
+// Puts a delivery back in the outbox for an immediate attempt, e.g. after fixing the receiver
+export async function redeliver(deliveryId: string): Promise<boolean> {
+  const result = await db.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: { not: 'PENDING' } },
+    data: { status: 'PENDING', attempts: 0, next_attempt_at: new Date() }
+  });
+  if (result.count === 0) return false;
+
+  return attemptDelivery(deliveryId);
+}
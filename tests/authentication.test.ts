@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticateToken } from '@/app/api/auth/verify';
+import { AuthenticationError } from '@/lib/auth-errors';
+
+vi.mock('@/app/api/db/connection', async () => {
+  const { createDbMock } = await import('./helpers/db-mock');
+  return { db: createDbMock() };
+});
+
+vi.mock('@/app/api/auth/verify', () => ({
+  authenticateToken: vi.fn(),
+  authenticateReader: vi.fn(),
+  verifyIdentityToken: vi.fn(),
+  upsertUser: vi.fn(),
+  ensureExternalUserIdSequence: vi.fn()
+}));
+
+type Handler = (request: NextRequest, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+interface AuthenticatedRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  load: () => Promise<Record<string, unknown>>;
+}
+
+// Handlers that authenticate the caller with a bearer token
+const AUTHENTICATED_ROUTES: AuthenticatedRoute[] = [
+  { method: 'GET', path: '/api/admin/appeals', load: () => import('@/app/api/admin/appeals/route') },
+  { method: 'GET', path: '/api/admin/appeals/1', load: () => import('@/app/api/admin/appeals/[id]/route') },
+  { method: 'PATCH', path: '/api/admin/appeals/1', load: () => import('@/app/api/admin/appeals/[id]/route') },
+  { method: 'GET', path: '/api/admin/automod/held', load: () => import('@/app/api/admin/automod/held/route') },
+  { method: 'POST', path: '/api/admin/automod/held', load: () => import('@/app/api/admin/automod/held/route') },
+  { method: 'GET', path: '/api/admin/automod/rules', load: () => import('@/app/api/admin/automod/rules/route') },
+  { method: 'POST', path: '/api/admin/automod/rules', load: () => import('@/app/api/admin/automod/rules/route') },
+  { method: 'GET', path: '/api/admin/automod/rules/1', load: () => import('@/app/api/admin/automod/rules/[id]/route') },
+  { method: 'PATCH', path: '/api/admin/automod/rules/1', load: () => import('@/app/api/admin/automod/rules/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/automod/rules/1', load: () => import('@/app/api/admin/automod/rules/[id]/route') },
+  { method: 'GET', path: '/api/admin/escalation/policies', load: () => import('@/app/api/admin/escalation/policies/route') },
+  { method: 'POST', path: '/api/admin/escalation/policies', load: () => import('@/app/api/admin/escalation/policies/route') },
+  { method: 'PATCH', path: '/api/admin/escalation/policies/1', load: () => import('@/app/api/admin/escalation/policies/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/escalation/policies/1', load: () => import('@/app/api/admin/escalation/policies/[id]/route') },
+  { method: 'GET', path: '/api/admin/escalation/preview', load: () => import('@/app/api/admin/escalation/preview/route') },
+  { method: 'GET', path: '/api/admin/media-settings', load: () => import('@/app/api/admin/media-settings/route') },
+  { method: 'PATCH', path: '/api/admin/media-settings', load: () => import('@/app/api/admin/media-settings/route') },
+  { method: 'GET', path: '/api/admin/moderation-queue', load: () => import('@/app/api/admin/moderation-queue/route') },
+  { method: 'GET', path: '/api/admin/moderation-queue/1', load: () => import('@/app/api/admin/moderation-queue/[id]/route') },
+  { method: 'PATCH', path: '/api/admin/moderation-queue/1', load: () => import('@/app/api/admin/moderation-queue/[id]/route') },
+  { method: 'GET', path: '/api/admin/rate-limits', load: () => import('@/app/api/admin/rate-limits/route') },
+  { method: 'POST', path: '/api/admin/rate-limits', load: () => import('@/app/api/admin/rate-limits/route') },
+  { method: 'PATCH', path: '/api/admin/rate-limits/1', load: () => import('@/app/api/admin/rate-limits/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/rate-limits/1', load: () => import('@/app/api/admin/rate-limits/[id]/route') },
+  { method: 'GET', path: '/api/admin/rate-limits/overrides', load: () => import('@/app/api/admin/rate-limits/overrides/route') },
+  { method: 'PUT', path: '/api/admin/rate-limits/overrides', load: () => import('@/app/api/admin/rate-limits/overrides/route') },
+  { method: 'DELETE', path: '/api/admin/rate-limits/overrides', load: () => import('@/app/api/admin/rate-limits/overrides/route') },
+  { method: 'GET', path: '/api/admin/webhooks', load: () => import('@/app/api/admin/webhooks/route') },
+  { method: 'POST', path: '/api/admin/webhooks', load: () => import('@/app/api/admin/webhooks/route') },
+  { method: 'PATCH', path: '/api/admin/webhooks/1', load: () => import('@/app/api/admin/webhooks/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/webhooks/1', load: () => import('@/app/api/admin/webhooks/[id]/route') },
+  { method: 'GET', path: '/api/admin/webhooks/deliveries', load: () => import('@/app/api/admin/webhooks/deliveries/route') },
+  { method: 'POST', path: '/api/admin/webhooks/deliveries', load: () => import('@/app/api/admin/webhooks/deliveries/route') },
+  { method: 'GET', path: '/api/appeals', load: () => import('@/app/api/appeals/route') },
+  { method: 'POST', path: '/api/appeals', load: () => import('@/app/api/appeals/route') },
+  { method: 'POST', path: '/api/comments/1/lock', load: () => import('@/app/api/comments/[id]/lock/route') },
+  { method: 'DELETE', path: '/api/comments/1/lock', load: () => import('@/app/api/comments/[id]/lock/route') },
+  { method: 'GET', path: '/api/notifications', load: () => import('@/app/api/notifications/route') },
+  { method: 'PATCH', path: '/api/notifications/1', load: () => import('@/app/api/notifications/[id]/route') },
+  { method: 'DELETE', path: '/api/notifications/1', load: () => import('@/app/api/notifications/[id]/route') },
+  { method: 'GET', path: '/api/notifications/preferences', load: () => import('@/app/api/notifications/preferences/route') },
+  { method: 'PUT', path: '/api/notifications/preferences', load: () => import('@/app/api/notifications/preferences/route') },
+  { method: 'POST', path: '/api/notifications/read-all', load: () => import('@/app/api/notifications/read-all/route') }
+];
+
+describe.each(AUTHENTICATED_ROUTES)('$method $path', route => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('answers an invalid token with 401', async () => {
+    vi.mocked(authenticateToken).mockRejectedValue(new AuthenticationError('Invalid or expired session token'));
+
+    const handler = (await route.load())[route.method] as Handler;
+    const request = new NextRequest(`http://localhost${route.path}`, {
+      method: route.method,
+      headers: { authorization: 'Bearer expired', 'content-type': 'application/json' },
+      body: route.method === 'GET' ? undefined : JSON.stringify({})
+    });
+    const response = await handler(request, { params: Promise.resolve({ id: '1' }) });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ success: false, error: 'Invalid or expired session token' });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { AutomodAction, MediaType, Role } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/app/api/db/connection';
+import { clearAutomodRuleCache, evaluateAutomod, parseConditions } from '@/lib/automod';
+
+vi.mock('@/app/api/db/connection', async () => {
+  const { createDbMock } = await import('./helpers/db-mock');
+  return { db: createDbMock() };
+});
+
+const mockDb = db as any;
+
+function makeRule(patterns: string[]) {
+  return {
+    id: 'rule-1',
+    name: 'Patterns',
+    version: 1,
+    conditions: { patterns },
+    action: AutomodAction.HOLD,
+    message: null,
+    media_id: null,
+    media_type: null,
+    applies_to_edits: true,
+    created_by: 1,
+    updated_by: null
+  };
+}
+
+function evaluate(content: string) {
+  return evaluateAutomod({
+    content,
+    media_id: 1,
+    media_type: MediaType.ANIME,
+    is_edit: false,
+    author: { anilist_user_id: 2, role: Role.USER, created_at: new Date(Date.UTC(2020, 0, 1)) }
+  });
+}
+
+describe('parseConditions', () => {
+  it.each([
+    '(a+)+$',
+    '(\\w+\\s?)*$',
+    '(?:x{1,5}){2,}',
+    '(a|ab)*c',
+    '(\\w|\\d)+$',
+    '\\d+\\d+x',
+    '.*.*=.*',
+    'a*b?a*$'
+  ])('rejects %s', pattern => {
+    const parsed = parseConditions({ patterns: [pattern] });
+
+    expect(parsed).toEqual({ error: expect.stringContaining('nested or overlapping quantifiers') });
+  });
+
+  it.each([
+    '\\bfree\\s+nitro\\b',
+    'https?://\\S+',
+    '(?:buy|sell)+ now',
+    '\\d{3}-\\d{4}',
+    '[A-Z]{5,}',
+    '(?<![\\p{L}])spoiler:',
+    '^.*$'
+  ])('accepts %s', pattern => {
+    expect(parseConditions({ patterns: [pattern] })).toEqual({ conditions: { patterns: [pattern] } });
+  });
+
+  it('rejects patterns over the length limit', () => {
+    const parsed = parseConditions({ patterns: ['a'.repeat(201)] });
+
+    expect(parsed).toEqual({ error: expect.stringContaining('up to 200 characters') });
+  });
+});
+
+describe('evaluateAutomod', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearAutomodRuleCache();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('skips a stored rule with an unsafe pattern instead of running it', async () => {
+    mockDb.automodRule.findMany.mockResolvedValue([makeRule(['(a+)+$'])]);
+
+    const verdict = await evaluate(`${'a'.repeat(40)}!`);
+
+    expect(verdict.matches).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('Skipping automod rule rule-1'),
+      expect.any(Error)
+    );
+  });
+
+  it('only runs patterns on the first 2000 characters', async () => {
+    mockDb.automodRule.findMany.mockResolvedValue([makeRule(['spam$'])]);
+
+    expect((await evaluate(`${'a'.repeat(1996)}spam`)).matches).toHaveLength(1);
+    expect((await evaluate(`${'a'.repeat(2000)}spam`)).matches).toEqual([]);
+  });
+});
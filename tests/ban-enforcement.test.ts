@@ -0,0 +1,193 @@
+import { NextRequest } from 'next/server';
+import { Prisma, Role } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/app/api/db/connection';
+import { authenticateToken } from '@/app/api/auth/verify';
+
+vi.mock('@/app/api/db/connection', async () => {
+  const { createDbMock } = await import('./helpers/db-mock');
+  return { db: createDbMock() };
+});
+
+vi.mock('@/app/api/auth/verify', () => ({
+  authenticateToken: vi.fn(),
+  authenticateReader: vi.fn(),
+  verifyIdentityToken: vi.fn(),
+  upsertUser: vi.fn(),
+  ensureExternalUserIdSequence: vi.fn()
+}));
+
+type Handler = (request: NextRequest, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+interface MutatingRoute {
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  load: () => Promise<Record<string, unknown>>;
+}
+
+// Every handler that writes on behalf of the caller
+const MUTATING_ROUTES: MutatingRoute[] = [
+  { method: 'POST', path: '/api/admin/actions', load: () => import('@/app/api/admin/actions/route') },
+  { method: 'PATCH', path: '/api/admin/appeals/1', load: () => import('@/app/api/admin/appeals/[id]/route') },
+  { method: 'POST', path: '/api/admin/automod/held', load: () => import('@/app/api/admin/automod/held/route') },
+  { method: 'POST', path: '/api/admin/automod/rules', load: () => import('@/app/api/admin/automod/rules/route') },
+  { method: 'PATCH', path: '/api/admin/automod/rules/1', load: () => import('@/app/api/admin/automod/rules/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/automod/rules/1', load: () => import('@/app/api/admin/automod/rules/[id]/route') },
+  { method: 'POST', path: '/api/admin/escalation/policies', load: () => import('@/app/api/admin/escalation/policies/route') },
+  { method: 'PATCH', path: '/api/admin/escalation/policies/1', load: () => import('@/app/api/admin/escalation/policies/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/escalation/policies/1', load: () => import('@/app/api/admin/escalation/policies/[id]/route') },
+  { method: 'PATCH', path: '/api/admin/media-settings', load: () => import('@/app/api/admin/media-settings/route') },
+  { method: 'PATCH', path: '/api/admin/moderation-queue/1', load: () => import('@/app/api/admin/moderation-queue/[id]/route') },
+  { method: 'POST', path: '/api/admin/rate-limits', load: () => import('@/app/api/admin/rate-limits/route') },
+  { method: 'PATCH', path: '/api/admin/rate-limits/1', load: () => import('@/app/api/admin/rate-limits/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/rate-limits/1', load: () => import('@/app/api/admin/rate-limits/[id]/route') },
+  { method: 'PUT', path: '/api/admin/rate-limits/overrides', load: () => import('@/app/api/admin/rate-limits/overrides/route') },
+  { method: 'DELETE', path: '/api/admin/rate-limits/overrides', load: () => import('@/app/api/admin/rate-limits/overrides/route') },
+  { method: 'POST', path: '/api/admin/role-change', load: () => import('@/app/api/admin/role-change/route') },
+  { method: 'POST', path: '/api/admin/shadow-ban', load: () => import('@/app/api/admin/shadow-ban/route') },
+  { method: 'DELETE', path: '/api/admin/shadow-ban', load: () => import('@/app/api/admin/shadow-ban/route') },
+  { method: 'POST', path: '/api/admin/webhooks', load: () => import('@/app/api/admin/webhooks/route') },
+  { method: 'PATCH', path: '/api/admin/webhooks/1', load: () => import('@/app/api/admin/webhooks/[id]/route') },
+  { method: 'DELETE', path: '/api/admin/webhooks/1', load: () => import('@/app/api/admin/webhooks/[id]/route') },
+  { method: 'POST', path: '/api/admin/webhooks/deliveries', load: () => import('@/app/api/admin/webhooks/deliveries/route') },
+  { method: 'POST', path: '/api/comments', load: () => import('@/app/api/comments/route') },
+  { method: 'DELETE', path: '/api/comments/1', load: () => import('@/app/api/comments/[id]/route') },
+  { method: 'PATCH', path: '/api/comments/1/edit', load: () => import('@/app/api/comments/[id]/edit/route') },
+  { method: 'POST', path: '/api/comments/1/lock', load: () => import('@/app/api/comments/[id]/lock/route') },
+  { method: 'DELETE', path: '/api/comments/1/lock', load: () => import('@/app/api/comments/[id]/lock/route') },
+  { method: 'POST', path: '/api/comments/1/tag', load: () => import('@/app/api/comments/[id]/tag/route') },
+  { method: 'DELETE', path: '/api/comments/1/tag', load: () => import('@/app/api/comments/[id]/tag/route') },
+  { method: 'POST', path: '/api/comments/reports', load: () => import('@/app/api/comments/reports/route') },
+  { method: 'POST', path: '/api/comments/vote', load: () => import('@/app/api/comments/vote/route') }
+];
+
+const mockDb = db as any;
+
+function makeUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'user-1',
+    anilist_user_id: 1,
+    username: 'tester',
+    role: Role.SUPER_ADMIN,
+    is_mod: false,
+    is_admin: false,
+    is_banned: false,
+    ban_reason: null,
+    ban_expires: null,
+    shadow_banned: false,
+    shadow_ban_reason: null,
+    shadow_ban_expires: null,
+    warning_count: 0,
+    ...overrides
+  };
+}
+
+async function call(route: MutatingRoute, user: ReturnType<typeof makeUser>) {
+  vi.mocked(authenticateToken).mockResolvedValue({
+    anilistUser: { id: user.anilist_user_id, name: user.username } as any,
+    user
+  });
+
+  const handler = (await route.load())[route.method] as Handler;
+  const request = new NextRequest(`http://localhost${route.path}`, {
+    method: route.method,
+    headers: { authorization: 'Bearer token', 'content-type': 'application/json' },
+    body: JSON.stringify({})
+  });
+  const response = await handler(request, { params: Promise.resolve({ id: '1' }) });
+  return { status: response.status, body: await response.json() };
+}
+
+describe.each(MUTATING_ROUTES)('$method $path', route => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockDb.user.update.mockImplementation(async ({ data }: any) => data);
+  });
+
+  it('rejects a banned user with the ban details', async () => {
+    const expires = new Date(Date.now() + 60 * 60 * 1000);
+    const { status, body } = await call(route, makeUser({ is_banned: true, ban_reason: 'Spam', ban_expires: expires }));
+
+    expect(status).toBe(403);
+    expect(body.data.ban).toMatchObject({ reason: 'Spam', is_permanent: false, appeal_url: '/api/appeals' });
+    expect(mockDb.user.update).not.toHaveBeenCalled();
+  });
+
+  it('clears an expired ban and lets the user through', async () => {
+    const expired = new Date(Date.now() - 60 * 1000);
+    const { body } = await call(route, makeUser({ is_banned: true, ban_reason: 'Spam', ban_expires: expired }));
+
+    expect(mockDb.user.update).toHaveBeenCalledWith({
+      where: { anilist_user_id: 1 },
+      data: { is_banned: false, ban_reason: null, ban_expires: null }
+    });
+    expect(mockDb.ban.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { is_active: false }
+    }));
+    expect(body.data?.ban).toBeUndefined();
+  });
+});
+
+describe('POST /api/appeals', () => {
+  const expires = new Date(Date.now() + 60 * 60 * 1000);
+  const ban = { id: 'ban-1', user_id: 1, is_active: true, appeal: null };
+
+  async function appeal(user: ReturnType<typeof makeUser>) {
+    vi.mocked(authenticateToken).mockResolvedValue({
+      anilistUser: { id: user.anilist_user_id, name: user.username } as any,
+      user
+    });
+
+    const { POST } = await import('@/app/api/appeals/route');
+    const response = await POST(new NextRequest('http://localhost/api/appeals', {
+      method: 'POST',
+      headers: { authorization: 'Bearer token', 'content-type': 'application/json' },
+      body: JSON.stringify({ ban_id: ban.id, statement: 'I was banned by mistake, please review it.' })
+    }));
+    return { status: response.status, body: await response.json() };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockDb.appeal.create.mockImplementation(async ({ data }: any) => ({
+      id: 'appeal-1',
+      status: 'PENDING',
+      created_at: new Date(),
+      ...data
+    }));
+  });
+
+  it('lets a banned user appeal their ban', async () => {
+    mockDb.ban.findUnique.mockResolvedValue(ban);
+
+    const { status, body } = await appeal(makeUser({ is_banned: true, ban_reason: 'Spam', ban_expires: expires }));
+
+    expect(status).toBe(201);
+    expect(body.data).toMatchObject({ id: 'appeal-1', ban_id: ban.id, warning_id: null });
+    expect(mockDb.appeal.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a second appeal of the same ban with 409', async () => {
+    mockDb.ban.findUnique.mockResolvedValue({ ...ban, appeal: { id: 'appeal-1' } });
+
+    const { status, body } = await appeal(makeUser({ is_banned: true, ban_reason: 'Spam', ban_expires: expires }));
+
+    expect(status).toBe(409);
+    expect(body.error).toBe('You have already appealed this ban');
+    expect(mockDb.appeal.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a concurrent appeal of the same ban with 409', async () => {
+    mockDb.ban.findUnique.mockResolvedValue(ban);
+    mockDb.appeal.create.mockRejectedValue(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client
+    }));
+
+    const { status } = await appeal(makeUser({ is_banned: true, ban_reason: 'Spam', ban_expires: expires }));
+
+    expect(status).toBe(409);
+  });
+});
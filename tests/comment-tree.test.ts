@@ -0,0 +1,135 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/app/api/db/connection';
+import { CommentTreeOptions, attachReplyTrees, formatComment } from '@/lib/comment-tree';
+import { Comment } from '@/lib/types';
+import { countQueries } from './helpers/db-mock';
+
+vi.mock('@/app/api/db/connection', async () => {
+  const { createDbMock } = await import('./helpers/db-mock');
+  return { db: createDbMock() };
+});
+
+const mockDb = db as any;
+const TOP_LEVEL_COMMENTS = 5;
+const MAX_DEPTH = 10;
+const REPLIES_PER_NODE = 10;
+
+function makeRow(id: number, parent: any | null) {
+  return {
+    id,
+    media_id: 1,
+    media_type: 'ANIME',
+    parent_comment_id: parent ? parent.id : null,
+    root_comment_id: parent ? parent.root_comment_id ?? parent.id : null,
+    depth_level: parent ? parent.depth_level + 1 : 0,
+    content: `comment ${id}`,
+    anilist_user_id: 1,
+    upvotes: 0,
+    downvotes: 0,
+    total_votes: 0,
+    is_deleted: false,
+    is_locked: false,
+    lock_expires: null,
+    created_at: new Date(Date.UTC(2024, 0, 1) + id * 1000),
+    updated_at: new Date(Date.UTC(2024, 0, 1) + id * 1000),
+    user: { anilist_user_id: 1, username: 'tester', shadow_banned: false, shadow_ban_expires: null },
+    tags: [],
+    mentions: [],
+    _count: { replies: 0 }
+  };
+}
+
+// A page of top-level comments with `replyCount` replies spread over a tree about three wide
+function buildThread(replyCount: number) {
+  const rows = Array.from({ length: TOP_LEVEL_COMMENTS }, (_, i) => makeRow(i + 1, null));
+  for (let i = 0; i < replyCount; i++) {
+    const parent = rows[Math.floor(i / 3)];
+    parent._count.replies++;
+    rows.push(makeRow(rows.length + 1, parent));
+  }
+  return rows;
+}
+
+// Answers the kept-replies query with a canned id list and loads those rows; what the
+// query selects is checked against its SQL below, not re-implemented here
+function serveThread(rows: ReturnType<typeof buildThread>) {
+  mockDb.$queryRaw.mockResolvedValue(rows.filter(row => row.parent_comment_id !== null).map(row => ({ id: row.id })));
+  mockDb.comment.findMany.mockImplementation(async ({ where }: any) =>
+    rows.filter(row => where.id.in.includes(row.id))
+  );
+}
+
+function keptRepliesQuery(): Prisma.Sql {
+  const [strings, ...values] = mockDb.$queryRaw.mock.calls[0];
+  return Prisma.sql(strings, ...values);
+}
+
+function attach(parents: Comment[], options: Partial<CommentTreeOptions> = {}) {
+  return attachReplyTrees(parents, {
+    userId: null,
+    maxDepth: MAX_DEPTH,
+    includeDeleted: false,
+    repliesPerNode: REPLIES_PER_NODE,
+    repliesPerDepth: 500,
+    ...options
+  });
+}
+
+describe('attachReplyTrees', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([10, 100, 1000])('loads %i replies with a constant number of queries', async replyCount => {
+    const rows = buildThread(replyCount);
+    serveThread(rows);
+    const parents = rows.slice(0, TOP_LEVEL_COMMENTS).map(row => formatComment(row));
+
+    await attach(parents);
+
+    expect(parents[0].replies?.length).toBeGreaterThan(0);
+    expect(countQueries(mockDb)).toBe(2);
+  });
+
+  it('caps children per parent inside the recursion and stops at the depth limit', async () => {
+    const rows = buildThread(10);
+    serveThread(rows);
+    const parents = rows.slice(0, TOP_LEVEL_COMMENTS).map(row => formatComment(row));
+
+    await attach(parents, { maxDepth: 4, repliesPerNode: 3 });
+
+    const query = keptRepliesQuery();
+    const text = query.text.replace(/\s+/g, ' ');
+
+    // Both the seed and the recursive step take the first N children per parent
+    expect(text).toContain('WITH RECURSIVE kept AS');
+    expect(text.match(/CROSS JOIN LATERAL \( SELECT c\.id, c\.depth_level FROM comments c WHERE c\.parent_comment_id = (parent|kept)\.id/g))
+      .toHaveLength(2);
+    expect(text.match(/ORDER BY c\.created_at ASC, c\.id ASC LIMIT \$\d+ \) child/g)).toHaveLength(2);
+    expect(text).toMatch(/WHERE kept\.depth_level \+ 1 < \$\d+ \) SELECT id FROM kept/);
+    expect(text).not.toContain('root_comment_id');
+
+    expect(query.values).toEqual([[1, 2, 3, 4, 5], 3, 3, 4]);
+  });
+
+  it('orders children by the requested reply sort', async () => {
+    serveThread(buildThread(10));
+    const parents = [formatComment(makeRow(1, null))];
+
+    await attach(parents, { replySort: 'top' });
+
+    expect(keptRepliesQuery().text.replace(/\s+/g, ' '))
+      .toContain('ORDER BY c.upvotes DESC, c.created_at DESC, c.id DESC LIMIT');
+  });
+
+  it('skips the query when every parent is at the depth limit', async () => {
+    const parents = [formatComment({ ...makeRow(1, null), depth_level: MAX_DEPTH - 1, _count: { replies: 4 } })];
+
+    await attach(parents);
+
+    expect(countQueries(mockDb)).toBe(0);
+    expect(parents[0].more_replies).toBe(4);
+    expect(parents[0].more_replies_cursor).not.toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { Mock, vi } from 'vitest';
+
+const QUERY_MOCKS = Symbol('queryMocks');
+
+// Stand-in for the Prisma client: every model method is a vi.fn that resolves to an empty
+// result, so a handler runs until the first query a test did not set up. Tests override
+// single methods with mockResolvedValue / mockImplementation.
+export function createDbMock(): any {
+  const models = new Map<string, Record<string, any>>();
+  const queries: Mock[] = [];
+
+  const model = (name: string) => {
+    if (!models.has(name)) {
+      const methods: Record<string, any> = {};
+      models.set(name, new Proxy(methods, {
+        get(target, method: string) {
+          if (!target[method]) {
+            target[method] = vi.fn(async () => emptyResult(method));
+            queries.push(target[method]);
+          }
+          return target[method];
+        }
+      }));
+    }
+    return models.get(name)!;
+  };
+
+  const raw = {
+    $queryRaw: vi.fn(async () => []),
+    $executeRaw: vi.fn(async () => 0),
+    $transaction: vi.fn(async (work: any) => typeof work === 'function' ? work(client) : Promise.all(work))
+  };
+  queries.push(raw.$queryRaw, raw.$executeRaw, raw.$transaction);
+
+  const client: any = new Proxy({ ...raw, [QUERY_MOCKS]: queries } as Record<string | symbol, any>, {
+    get(target, name) {
+      return name in target ? target[name as string] : model(name as string);
+    }
+  });
+
+  return client;
+}
+
+// Database calls made through the mock since the last vi.clearAllMocks()
+export function countQueries(client: any): number {
+  return (client[QUERY_MOCKS] as Mock[]).reduce((total, query) => total + query.mock.calls.length, 0);
+}
+
+function emptyResult(method: string) {
+  if (method === 'findMany' || method === 'groupBy') return [];
+  if (method === 'count') return 0;
+  if (method.endsWith('Many')) return { count: 0 };
+  return null;
+}
@@ -0,0 +1,57 @@
+import { MediaType, Role } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/app/api/db/connection';
+import { PostingRestrictedError, enforcePostingRestrictions } from '@/lib/locks';
+import { MemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+
+vi.mock('@/app/api/db/connection', async () => {
+  const { createDbMock } = await import('./helpers/db-mock');
+  return { db: createDbMock() };
+});
+
+const mockDb = db as any;
+const user = { anilist_user_id: 1, role: Role.USER };
+const target = { media_id: 10, media_type: MediaType.ANIME, root_comment_id: null };
+
+describe('enforcePostingRestrictions slow mode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    mockDb.mediaSettings.findUnique.mockResolvedValue({
+      is_locked: false,
+      lock_expires: null,
+      lock_reason: null,
+      slow_mode_seconds: 60,
+      slow_mode_expires: null
+    });
+  });
+
+  it('lets only one of several concurrent comments through', async () => {
+    const results = await Promise.allSettled([
+      enforcePostingRestrictions(user, target),
+      enforcePostingRestrictions(user, target),
+      enforcePostingRestrictions(user, target)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results.filter(result => result.status === 'rejected')) {
+      const error = (result as PromiseRejectedResult).reason;
+      expect(error).toBeInstanceOf(PostingRestrictedError);
+      expect(error.restriction).toMatchObject({ type: 'slow_mode', slow_mode_seconds: 60, retry_after: 60 });
+    }
+  });
+
+  it('counts each media page and user separately', async () => {
+    await enforcePostingRestrictions(user, target);
+
+    await expect(enforcePostingRestrictions(user, { ...target, media_id: 11 })).resolves.toBeUndefined();
+    await expect(enforcePostingRestrictions({ ...user, anilist_user_id: 2 }, target)).resolves.toBeUndefined();
+  });
+
+  it('does not restrict moderators', async () => {
+    const moderator = { ...user, role: Role.MODERATOR };
+
+    await enforcePostingRestrictions(moderator, target);
+    await expect(enforcePostingRestrictions(moderator, target)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/app/api/db/connection';
+import { formatSnippet, searchComments } from '@/lib/search';
+
+vi.mock('@/app/api/db/connection', async () => {
+  const { createDbMock } = await import('./helpers/db-mock');
+  return { db: createDbMock() };
+});
+
+const mockDb = db as any;
+
+describe('formatSnippet', () => {
+  it('escapes markup from the comment and keeps only the highlights', () => {
+    const snippet = formatSnippet('<script>alert(1)</script> [[mark]]naruto[[/mark]] <img src=x onerror="steal()">');
+
+    expect(snippet).toBe(
+      '&lt;script&gt;alert(1)&lt;/script&gt; <mark>naruto</mark> &lt;img src=x onerror=&quot;steal()&quot;&gt;'
+    );
+  });
+
+  it('escapes markup inside a highlighted match', () => {
+    expect(formatSnippet("[[mark]]<b>bold</b>[[/mark]] & 'quoted'")).toBe(
+      '<mark>&lt;b&gt;bold&lt;/b&gt;</mark> &amp; &#39;quoted&#39;'
+    );
+  });
+});
+
+describe('searchComments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns escaped snippets', async () => {
+    mockDb.$queryRaw.mockResolvedValue([
+      { id: 1, rank: 0.5, created_at: new Date(), snippet: '<img src=x onerror=alert(1)> [[mark]]one[[/mark]] piece' }
+    ]);
+
+    const hits = await searchComments({
+      query: 'one',
+      includeDeleted: false,
+      viewerId: null,
+      isModerator: false,
+      cursor: null,
+      limit: 20
+    });
+
+    expect(hits[0].snippet).toBe('&lt;img src=x onerror=alert(1)&gt; <mark>one</mark> piece');
+  });
+});
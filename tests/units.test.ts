@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { buildUnitFilter, parseUnitNumber } from '@/lib/units';
+
+describe('parseUnitNumber', () => {
+  it.each([
+    [12, 12],
+    [10.5, 10.5],
+    ['0', 0],
+    ['12', 12],
+    ['10.5', 10.5]
+  ])('accepts %j', (value, expected) => {
+    expect(parseUnitNumber(value)).toBe(expected);
+  });
+
+  it.each(['', ' ', '\t', ' 12', '12 ', '0x10', '1e3', 'Infinity', '-1', '12.', '.5', 'abc', 100001, -1, NaN, true, []])(
+    'rejects %j',
+    value => {
+      expect(parseUnitNumber(value)).toBeNull();
+    }
+  );
+});
+
+describe('buildUnitFilter', () => {
+  it('selects the general section when the parameter is omitted', () => {
+    expect(buildUnitFilter(null)).toEqual({ unit_number: null });
+    expect(buildUnitFilter('general')).toEqual({ unit_number: null });
+  });
+
+  it('selects every section for "all" and one section for a number', () => {
+    expect(buildUnitFilter('all')).toEqual({});
+    expect(buildUnitFilter('10.5')).toEqual({ unit_number: 10.5 });
+  });
+
+  it('rejects a blank parameter', () => {
+    expect(buildUnitFilter('')).toBeNull();
+    expect(buildUnitFilter('  ')).toBeNull();
+  });
+});